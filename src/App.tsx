@@ -14,6 +14,8 @@ import Broadcasts from "@/pages/Broadcasts";
 import PackingPage from "@/pages/PackingPage";
 import AIStringsManager from "@/pages/AIStringsManager";
 import WhatsAppMenuConfig from "@/pages/WhatsAppMenuConfig";
+import SavedReplies from "@/pages/SavedReplies";
+import Tags from "@/pages/Tags";
 import NotFound from "@/pages/NotFound";
 import Debug from "@/pages/Debug";
 const queryClient = new QueryClient({
@@ -65,6 +67,26 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/saved-replies"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <SavedReplies />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/tags"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout>
+                      <Tags />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/broadcasts"
                 element={
@@ -1,20 +1,34 @@
 import { ReactNode, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useNotifications } from "@/hooks/use-notifications";
+import { usePresenceSync } from "@/hooks/use-presence";
+import { conversationsApi } from "@/lib/apiClient";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, MessageSquare, Radio, Package, LogOut, Menu, Settings2, MessageCircle } from "lucide-react";
+import { LayoutDashboard, MessageSquare, Radio, Package, LogOut, Menu, Settings2, MessageCircle, MessageSquareText, Tags } from "lucide-react";
 import { BusinessSelector } from "@/components/cockpit/BusinessSelector";
+import { NotificationSettings } from "@/components/cockpit/NotificationSettings";
+import { CommandPalette } from "@/components/cockpit/CommandPalette";
+import { AvailabilityToggle } from "@/components/cockpit/AvailabilityToggle";
 
 const navItems = [
   { path: "/", label: "Dashboard", icon: LayoutDashboard },
   { path: "/conversations", label: "Conversations", icon: MessageSquare },
+  { path: "/saved-replies", label: "Saved Replies", icon: MessageSquareText },
+  { path: "/tags", label: "Tags", icon: Tags },
   { path: "/broadcasts", label: "Broadcasts", icon: Radio },
   { path: "/packing", label: "Packing", icon: Package },
   { path: "/whatsapp-menu", label: "WhatsApp Menu", icon: MessageCircle },
   { path: "/ai-strings", label: "AI & Strings", icon: Settings2 },
 ];
 
+// Backstop for the unread badge when realtime events are missed
+const UNREAD_POLL_INTERVAL = 30000;
+
 const envLabel = import.meta.env.MODE === "development" ? "STAGING" : "PRODUCTION";
 const envBadgeClass =
   import.meta.env.MODE === "development"
@@ -24,7 +38,23 @@ const envBadgeClass =
 export function DashboardLayout({ children }: { children: ReactNode }) {
   const location = useLocation();
   const { logout } = useAuth();
+  const { businessId } = useBusiness();
+  const queryClient = useQueryClient();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { prefs: notificationPrefs, updatePrefs: updateNotificationPrefs } = useNotifications();
+  usePresenceSync();
+
+  const { data: unreadTotal = 0 } = useQuery({
+    queryKey: ["unread-total", businessId],
+    queryFn: conversationsApi.getUnreadTotal,
+    refetchInterval: UNREAD_POLL_INTERVAL,
+  });
+
+  useRealtime((event) => {
+    if (event.type === "message.created" && event.message.sender === "user") {
+      queryClient.invalidateQueries({ queryKey: ["unread-total"] });
+    }
+  });
 
   return (
     <div className="min-h-screen bg-background flex">
@@ -59,20 +89,32 @@ export function DashboardLayout({ children }: { children: ReactNode }) {
         <nav className="flex-1 py-3 px-2 space-y-1">
           {navItems.map((item) => {
             const isActive = location.pathname === item.path;
+            const badge = item.path === "/conversations" && unreadTotal > 0 ? unreadTotal : 0;
+            const showLabel = sidebarOpen || window.innerWidth < 768;
             return (
               <Link
                 key={item.path}
                 to={item.path}
                 onClick={() => setSidebarOpen(false)}
                 className={cn(
-                  "flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors",
+                  "relative flex items-center gap-3 px-3 py-2 rounded-md text-sm transition-colors",
                   isActive
                     ? "bg-sidebar-accent text-sidebar-accent-foreground font-medium"
                     : "text-sidebar-foreground hover:bg-sidebar-accent/50"
                 )}
               >
                 <item.icon className="h-4 w-4 shrink-0" />
-                {(sidebarOpen || window.innerWidth < 768) && <span className="truncate">{item.label}</span>}
+                {showLabel && <span className="truncate">{item.label}</span>}
+                {badge > 0 && (
+                  <span
+                    className={cn(
+                      "h-4 min-w-4 px-1 rounded-full bg-emerald-600 text-white text-[10px] font-semibold leading-4 text-center",
+                      showLabel ? "ml-auto" : "absolute top-0.5 right-0.5"
+                    )}
+                  >
+                    {badge > 99 ? "99+" : badge}
+                  </span>
+                )}
               </Link>
             );
           })}
@@ -92,6 +134,8 @@ export function DashboardLayout({ children }: { children: ReactNode }) {
             <Menu className="h-4 w-4" />
           </Button>
 
+          <CommandPalette pages={navItems} />
+
           <div className="flex-1" />
 
           {/* Environment Badge */}
@@ -99,6 +143,12 @@ export function DashboardLayout({ children }: { children: ReactNode }) {
             {envLabel}
           </span>
 
+          {/* Availability for auto-assignment */}
+          <AvailabilityToggle />
+
+          {/* Alerts */}
+          <NotificationSettings prefs={notificationPrefs} onChange={updateNotificationPrefs} />
+
           {/* Business Selector */}
           <BusinessSelector />
 
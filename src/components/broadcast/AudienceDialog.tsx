@@ -12,7 +12,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { createBroadcastGroup } from "@/lib/api";
+import { broadcastsApi } from "@/lib/apiClient";
 import { useToast } from "@/hooks/use-toast";
 import { Users, Loader2 } from "lucide-react";
 
@@ -57,7 +57,7 @@ export function AudienceDialog({ onGroupCreated }: AudienceDialogProps) {
 
     setIsCreating(true);
     try {
-      await createBroadcastGroup(name.trim(), phones);
+      await broadcastsApi.createGroup(name.trim(), phones);
       toast({
         title: "Success",
         description: `Group "${name}" created with ${phones.length} numbers`,
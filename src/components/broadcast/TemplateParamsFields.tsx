@@ -0,0 +1,162 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { TemplateParams } from "@/lib/templates";
+
+interface TemplateParamsFieldsProps {
+  templateId: string;
+  params: TemplateParams;
+  onChange: (params: TemplateParams) => void;
+  // Keeps input ids unique when the fields appear more than once on a page
+  idPrefix?: string;
+}
+
+interface LinkSuffixFieldProps {
+  id: string;
+  example: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function LinkSuffixField({ id, example, value, onChange }: LinkSuffixFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id} className="text-sm font-medium">
+          Link Suffix
+        </Label>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="text-xs text-muted-foreground cursor-help">(?)</span>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Appended to your base URL (e.g., '{example}')</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+      <Input
+        id={id}
+        type="text"
+        placeholder={example}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
+
+/** The inputs a template needs, shared by broadcasts and the cockpit's template replies. */
+export function TemplateParamsFields({ templateId, params, onChange, idPrefix = "" }: TemplateParamsFieldsProps) {
+  const set = (changes: Partial<TemplateParams>) => onChange({ ...params, ...changes });
+  const id = (name: string) => `${idPrefix}${name}`;
+
+  switch (templateId) {
+    case "new_arrival_showcase":
+      return (
+        <div className="space-y-4 pt-4 border-t border-border">
+          <div className="space-y-2">
+            <Label htmlFor={id("header-image")} className="text-sm font-medium">
+              Header Image URL
+            </Label>
+            <Input
+              id={id("header-image")}
+              type="url"
+              placeholder="https://example.com/image.jpg"
+              value={params.header_media_url}
+              onChange={(e) => set({ header_media_url: e.target.value })}
+            />
+          </div>
+          <LinkSuffixField
+            id={id("link-suffix")}
+            example="collections/new"
+            value={params.button_suffix}
+            onChange={(button_suffix) => set({ button_suffix })}
+          />
+        </div>
+      );
+    case "video_collection_launch":
+      return (
+        <div className="space-y-4 pt-4 border-t border-border">
+          <div className="space-y-2">
+            <Label htmlFor={id("header-video")} className="text-sm font-medium">
+              Header Video URL
+            </Label>
+            <Input
+              id={id("header-video")}
+              type="url"
+              placeholder="https://example.com/video.mp4"
+              value={params.header_media_url}
+              onChange={(e) => set({ header_media_url: e.target.value })}
+            />
+          </div>
+          <LinkSuffixField
+            id={id("link-suffix-video")}
+            example="collections/sale"
+            value={params.button_suffix}
+            onChange={(button_suffix) => set({ button_suffix })}
+          />
+        </div>
+      );
+    case "festival_sale_alert":
+      return (
+        <div className="space-y-4 pt-4 border-t border-border">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={id("discount")} className="text-sm font-medium">
+                Discount %
+              </Label>
+              <Input
+                id={id("discount")}
+                type="text"
+                placeholder="20"
+                value={params.discount_percent}
+                onChange={(e) => set({ discount_percent: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={id("coupon")} className="text-sm font-medium">
+                Coupon Code
+              </Label>
+              <Input
+                id={id("coupon")}
+                type="text"
+                placeholder="SALE20"
+                value={params.coupon_code}
+                onChange={(e) => set({ coupon_code: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={id("expiry")} className="text-sm font-medium">
+              Expiry Date
+            </Label>
+            <Input
+              id={id("expiry")}
+              type="text"
+              placeholder="Dec 31, 2024"
+              value={params.expiry_date}
+              onChange={(e) => set({ expiry_date: e.target.value })}
+            />
+          </div>
+          <LinkSuffixField
+            id={id("link-suffix-sale")}
+            example="collections/sale"
+            value={params.button_suffix}
+            onChange={(button_suffix) => set({ button_suffix })}
+          />
+        </div>
+      );
+    case "gentle_greeting_v1":
+      return (
+        <div className="pt-4 border-t border-border">
+          <p className="text-sm text-muted-foreground">
+            No additional inputs required for this template.
+          </p>
+        </div>
+      );
+    default:
+      return null;
+  }
+}
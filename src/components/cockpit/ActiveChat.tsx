@@ -1,13 +1,35 @@
 import { MessageSquare } from "lucide-react";
 import { Ticket } from "./TicketCard";
 import { ChatHeader } from "./ChatHeader";
-import { ChatMessages, Message } from "./ChatMessages";
-import { MessageInput } from "./MessageInput";
+import { ChatMessages } from "./ChatMessages";
+import { MessageInput, SendAttachmentOptions } from "./MessageInput";
+import { CustomerProfilePanel } from "./CustomerProfilePanel";
+import { Sheet, SheetContent } from "@/components/ui/sheet";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useAgents } from "@/hooks/use-agents";
+import { useAnnouncePresence, useConversationPresence } from "@/hooks/use-presence";
+import { useSlaClock } from "@/hooks/use-sla";
+import { useAiSuggestion, useSuggestMode } from "@/hooks/use-suggestions";
+import { getServiceWindow } from "@/lib/serviceWindow";
+import { DEFAULT_AI_PAUSE, getAutoResumeIn, pauseReasonLabel } from "@/lib/aiHandoff";
+import { formatSlaRemaining } from "@/lib/sla";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
-import { apiRequest } from "@/lib/api";
+import { useBusiness } from "@/contexts/BusinessContext";
+import {
+  AiPause,
+  AiPauseReason,
+  AiSuggestion,
+  conversationsApi,
+  ConversationTagging,
+  Message,
+  Resolution,
+  savedRepliesApi,
+  SuggestionOutcome,
+} from "@/lib/apiClient";
 import { toast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 interface ActiveChatProps {
   ticket: Ticket | null;
@@ -21,10 +43,19 @@ interface ActiveChatProps {
   hasAgentSent?: boolean;
   isTogglingAi?: boolean;
   onAssign: (userId: string) => void;
-  onResolve: () => void;
+  onResolve: (resolution: Resolution) => void;
+  onUpdateTags?: (tagging: ConversationTagging) => void;
   onSendMessage: (message: string) => void;
+  onSendAttachment?: (file: File, options: SendAttachmentOptions) => Promise<void>;
+  onSendNote?: (text: string, mentions: string[]) => Promise<void>;
+  onSendTemplate?: (templateName: string, params: Record<string, unknown>) => Promise<void>;
+  onRetryMessage?: (messageId: string) => void;
+  onDiscardMessage?: (messageId: string) => void;
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  lastReadAt?: string | null;
   onTicketUpdate?: () => void;
-  onToggleAi?: (enabled: boolean) => void;
+  onToggleAi?: (enabled: boolean, pause?: AiPause) => void;
   onBack?: () => void;
 }
 
@@ -35,9 +66,27 @@ interface ConversationStatusBannerProps {
   onRelease?: () => void;
   isReleasing?: boolean;
   aiEnabled?: boolean;
+  pauseReason?: string | null;
+  resumeInMs?: number | null;
+  // The local agent replied since the deadline was set, so the backend has restarted the timer
+  isResumeRestarted?: boolean;
+  onKeepPaused?: () => void;
 }
 
-function ConversationStatusBanner({ status, onTakeOver, canTakeOver, onRelease, isReleasing, aiEnabled }: ConversationStatusBannerProps) {
+function ConversationStatusBanner({
+  status,
+  onTakeOver,
+  canTakeOver,
+  onRelease,
+  isReleasing,
+  aiEnabled,
+  pauseReason,
+  resumeInMs,
+  isResumeRestarted,
+  onKeepPaused,
+}: ConversationStatusBannerProps) {
+  const reason = pauseReasonLabel(pauseReason);
+
   // 1. Human needed - top priority
   if (status === "human_needed") {
     return (
@@ -62,7 +111,26 @@ function ConversationStatusBanner({ status, onTakeOver, canTakeOver, onRelease,
   if (aiEnabled === false && status !== "resolved") {
     return (
       <div className="w-full px-4 py-2 bg-gray-200 text-gray-700 text-center text-sm flex items-center justify-center">
-        <span>⏸️ AI is paused. Bot will not reply.</span>
+        <span>
+          ⏸️ AI is paused{reason && ` (${reason})`}.{" "}
+          {resumeInMs == null
+            ? "Bot will not reply."
+            : isResumeRestarted
+              ? "Resumes after agent inactivity; your reply restarted the timer."
+              : resumeInMs > 0
+                ? `Resumes in ${formatSlaRemaining(resumeInMs)} without agent activity.`
+                : "Resuming…"}
+        </span>
+        {resumeInMs != null && onKeepPaused && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onKeepPaused}
+            className="ml-4 h-7 text-xs bg-background hover:bg-accent"
+          >
+            Keep paused
+          </Button>
+        )}
         {canTakeOver && onTakeOver && (
           <Button
             variant="outline"
@@ -117,13 +185,91 @@ export function ActiveChat({
   isTogglingAi,
   onAssign,
   onResolve,
+  onUpdateTags,
   onSendMessage,
+  onSendAttachment,
+  onSendNote,
+  onSendTemplate,
+  onRetryMessage,
+  onDiscardMessage,
+  focusMessageId,
+  onFocusHandled,
+  lastReadAt,
   onTicketUpdate,
   onToggleAi,
   onBack,
 }: ActiveChatProps) {
   const { user } = useAuth();
+  const { businessId } = useBusiness();
   const [isReleasing, setIsReleasing] = useState(false);
+  const isMobile = useIsMobile();
+  // Docked panel on desktop (open by default), sheet on mobile (closed by default)
+  const [isProfileOpen, setIsProfileOpen] = useState(true);
+  const [isProfileSheetOpen, setIsProfileSheetOpen] = useState(false);
+
+  const { data: savedReplies } = useQuery({
+    queryKey: ["saved-replies", businessId],
+    queryFn: () => savedRepliesApi.list(businessId),
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const { data: agents } = useAgents();
+  const viewers = useConversationPresence(ticket?._id);
+  const announceTyping = useAnnouncePresence(ticket?._id);
+  const now = useSlaClock();
+  // Unknown until the thread has loaded
+  const serviceWindow = messages && !isLoadingMessages ? getServiceWindow(messages, now) : null;
+
+  const queryClient = useQueryClient();
+  const [suggestMode, setSuggestMode] = useSuggestMode();
+  // Same rule as the composer's "AI Paused" indicator
+  const isBotPaused = !!ticket && (ticket.ai_paused_by !== null || !!hasAgentSent);
+  const { data: suggestion, isFetching: isSuggestionFetching } = useAiSuggestion(ticket?._id, suggestMode && isBotPaused);
+
+  const regenerateMutation = useMutation({
+    mutationFn: (conversationId: string) => conversationsApi.regenerateSuggestion(conversationId),
+    onSuccess: (next, conversationId) => queryClient.setQueryData(["suggestion", conversationId], next),
+    onError: (error) => {
+      toast({
+        title: "Couldn't get a suggestion",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reporting only; a lost outcome must not get in the agent's way
+  const handleSuggestionOutcome = (s: AiSuggestion, outcome: SuggestionOutcome, finalText?: string) => {
+    conversationsApi
+      .recordSuggestionOutcome(s.conversation_id, s.id, outcome, finalText)
+      .catch((error) => console.warn("[Suggestions] Failed to record outcome:", error));
+  };
+
+  // Deadline the local agent last replied against. Until a fresh ai_resume_at arrives it is stale
+  const [repliedAgainst, setRepliedAgainst] = useState<{ ticketId: string; resumeAt: string } | null>(null);
+  const isResumeRestarted =
+    !!ticket?.ai_resume_at && repliedAgainst?.ticketId === ticket._id && repliedAgainst.resumeAt === ticket.ai_resume_at;
+
+  const markReplied = () => {
+    if (ticket?.ai_resume_at) setRepliedAgainst({ ticketId: ticket._id, resumeAt: ticket.ai_resume_at });
+  };
+
+  const handleSendMessage = (text: string) => {
+    markReplied();
+    onSendMessage(text);
+  };
+
+  const handleSendAttachment = async (file: File, options: SendAttachmentOptions) => {
+    await onSendAttachment(file, options);
+    markReplied();
+  };
+
+  const { data: placeholderValues } = useQuery({
+    queryKey: ["placeholders", ticket?._id],
+    queryFn: () => conversationsApi.getPlaceholders(ticket._id),
+    enabled: !!ticket,
+    staleTime: 60 * 1000,
+  });
 
   if (!ticket) {
     return (
@@ -136,16 +282,18 @@ export function ActiveChat({
     );
   }
 
+  const customerPhone = ticket.customer_phone || ticket.phone || "";
+
   const handleTakeOver = () => {
     if (user) {
       onAssign(user.id || user.username || "");
       // Pause AI when taking over - this triggers optimistic update in parent
-      onToggleAi?.(false);
+      onToggleAi?.(false, DEFAULT_AI_PAUSE);
     }
   };
 
-  const handleResolve = () => {
-    onResolve();
+  const handleResolve = (resolution: Resolution) => {
+    onResolve(resolution);
     onTicketUpdate?.();
   };
 
@@ -154,9 +302,7 @@ export function ActiveChat({
 
     setIsReleasing(true);
     try {
-      await apiRequest(`/api/v1/conversations/${ticket._id}/release`, {
-        method: "POST",
-      });
+      await conversationsApi.release(ticket._id);
       toast({
         title: "Conversation released",
         description: "The bot will now handle this conversation.",
@@ -182,34 +328,99 @@ export function ActiveChat({
         isTogglingAi={isTogglingAi}
         onAssign={onAssign}
         onResolve={handleResolve}
+        onUpdateTags={onUpdateTags}
         onToggleAi={onToggleAi}
         onBack={onBack}
+        viewers={viewers}
+        serviceWindow={serviceWindow}
+        isProfileOpen={isMobile ? isProfileSheetOpen : isProfileOpen}
+        onToggleProfile={() =>
+          isMobile ? setIsProfileSheetOpen((open) => !open) : setIsProfileOpen((open) => !open)
+        }
       />
 
-      <ConversationStatusBanner
-        status={ticket.status}
-        onTakeOver={handleTakeOver}
-        canTakeOver={(ticket.status === "open" || ticket.status === "pending") && !!user}
-        onRelease={ticket.status === "human_needed" ? handleRelease : undefined}
-        isReleasing={isReleasing}
-        aiEnabled={ticket.ai_enabled}
-      />
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 flex flex-col min-w-0">
+          <ConversationStatusBanner
+            status={ticket.status}
+            onTakeOver={handleTakeOver}
+            canTakeOver={(ticket.status === "open" || ticket.status === "pending") && !!user}
+            onRelease={ticket.status === "human_needed" ? handleRelease : undefined}
+            isReleasing={isReleasing}
+            aiEnabled={ticket.ai_enabled}
+            pauseReason={ticket.ai_pause_reason}
+            resumeInMs={ticket.ai_enabled ? null : getAutoResumeIn(ticket.ai_resume_at, now)}
+            isResumeRestarted={isResumeRestarted}
+            onKeepPaused={
+              onToggleAi
+                ? () =>
+                    onToggleAi(false, {
+                      reason: (ticket.ai_pause_reason as AiPauseReason) || DEFAULT_AI_PAUSE.reason,
+                      resume_after_minutes: null,
+                    })
+                : undefined
+            }
+          />
 
-      <ChatMessages
-        messages={messages}
-        isLoading={isLoadingMessages}
-        isError={isMessagesError}
-        isAgentTyping={isAgentTyping}
-      />
+          <ChatMessages
+            messages={messages}
+            isLoading={isLoadingMessages}
+            isError={isMessagesError}
+            isAgentTyping={isAgentTyping}
+            onRetry={onRetryMessage}
+            onDiscard={onDiscardMessage}
+            focusMessageId={focusMessageId}
+            onFocusHandled={onFocusHandled}
+            lastReadAt={lastReadAt}
+          />
 
-      <MessageInput
-        onSend={onSendMessage}
-        isSending={isSending}
-        disabled={isLoadingMessages}
-        aiEnabled={ticket.ai_enabled}
-        aiPausedBy={ticket.ai_paused_by}
-        hasAgentSent={hasAgentSent}
-      />
+          {/* Keyed by ticket so drafts, staged files and filled placeholders never carry over to another customer */}
+          <MessageInput
+            key={ticket._id}
+            onSend={handleSendMessage}
+            isSending={isSending}
+            disabled={isLoadingMessages}
+            aiEnabled={ticket.ai_enabled}
+            aiPausedBy={ticket.ai_paused_by}
+            hasAgentSent={hasAgentSent}
+            savedReplies={savedReplies}
+            placeholderValues={placeholderValues}
+            onSendAttachment={onSendAttachment && handleSendAttachment}
+            onSendNote={onSendNote}
+            agents={agents}
+            onTyping={announceTyping}
+            typingAgents={viewers.filter((v) => v.activity === "typing").map((v) => v.username)}
+            isWindowClosed={serviceWindow?.level === "closed"}
+            onSendTemplate={onSendTemplate}
+            suggestMode={suggestMode}
+            onSuggestModeChange={setSuggestMode}
+            suggestion={suggestion}
+            isSuggestionLoading={isSuggestionFetching || regenerateMutation.isPending}
+            onRegenerateSuggestion={() => regenerateMutation.mutate(ticket._id)}
+            onSuggestionOutcome={handleSuggestionOutcome}
+          />
+        </div>
+
+        {!isMobile && isProfileOpen && (
+          <CustomerProfilePanel
+            phone={customerPhone}
+            conversationId={ticket._id}
+            onClose={() => setIsProfileOpen(false)}
+          />
+        )}
+      </div>
+
+      {isMobile && (
+        <Sheet open={isProfileSheetOpen} onOpenChange={setIsProfileSheetOpen}>
+          <SheetContent side="right" className="p-0 w-full sm:max-w-sm">
+            <CustomerProfilePanel
+              phone={customerPhone}
+              conversationId={ticket._id}
+              className="w-full border-l-0"
+            />
+          </SheetContent>
+        </Sheet>
+      )}
     </div>
   );
 }
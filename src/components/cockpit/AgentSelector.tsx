@@ -1,5 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { useAgents } from "@/hooks/use-agents";
+import { useAssignmentConfig } from "@/hooks/use-assignment";
+import { AGENT_STATUS_DOT, AGENT_STATUS_LABELS, agentCapacity } from "@/lib/assignment";
+import { cn } from "@/lib/utils";
 import {
   Select,
   SelectContent,
@@ -9,18 +11,6 @@ import {
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 
-interface Agent {
-  user_id: string;
-  username: string;
-}
-
-interface AgentsResponse {
-  success: boolean;
-  data: {
-    agents: Agent[];
-  };
-}
-
 interface AgentSelectorProps {
   currentAssigneeId: string | null;
   onAssign: (userId: string) => void;
@@ -32,14 +22,8 @@ export function AgentSelector({
   onAssign,
   disabled,
 }: AgentSelectorProps) {
-  const { data: agents, isLoading } = useQuery({
-    queryKey: ["agents"],
-    queryFn: async () => {
-      const response = await apiRequest<AgentsResponse>("/api/v1/auth/agents");
-      return response.data.agents;
-    },
-    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
-  });
+  const { data: agents, isLoading } = useAgents();
+  const assignmentConfig = useAssignmentConfig();
 
   if (isLoading) {
     return (
@@ -69,7 +53,18 @@ export function AgentSelector({
         </SelectItem>
         {agents?.map((agent) => (
           <SelectItem key={agent.user_id} value={agent.user_id}>
-            {agent.username}
+            <span className="flex items-center gap-2">
+              <span
+                className={cn("h-2 w-2 shrink-0 rounded-full", AGENT_STATUS_DOT[agent.status ?? "offline"])}
+                title={AGENT_STATUS_LABELS[agent.status ?? "offline"]}
+              />
+              {agent.username}
+              {agent.open_tickets != null && (
+                <span className="text-xs text-muted-foreground">
+                  {agent.open_tickets}/{agentCapacity(agent, assignmentConfig)}
+                </span>
+              )}
+            </span>
           </SelectItem>
         ))}
       </SelectContent>
@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ChevronDown, Loader2 } from "lucide-react";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { useAgents } from "@/hooks/use-agents";
+import { useTags } from "@/hooks/use-tags";
+import { AgentRouting, agentsApi, AssignmentConfig, AssignmentStrategy, businessConfigApi } from "@/lib/apiClient";
+import { AGENT_STATUS_DOT, ASSIGNMENT_STRATEGIES, DEFAULT_ASSIGNMENT } from "@/lib/assignment";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface AssignmentRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AssignmentRulesDialog({ open, onOpenChange }: AssignmentRulesDialogProps) {
+  const { businessId } = useBusiness();
+  const queryClient = useQueryClient();
+  const { data: agents = [] } = useAgents();
+  const { issueTypes, tags } = useTags();
+  const [draft, setDraft] = useState<AssignmentConfig>(DEFAULT_ASSIGNMENT);
+  // Per-agent routing edits, keyed by user_id; untouched agents aren't saved
+  const [routing, setRouting] = useState<Record<string, AgentRouting>>({});
+
+  const { data: config, isLoading } = useQuery({
+    queryKey: ["business-config", businessId],
+    queryFn: () => businessConfigApi.get(businessId),
+    enabled: !!businessId && open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setDraft(config?.assignment ?? DEFAULT_ASSIGNMENT);
+      setRouting({});
+    }
+  }, [open, config]);
+
+  const skillOptions = Array.from(new Set([...issueTypes, ...tags].map((tag) => tag.name)));
+
+  const routingOf = (userId: string): AgentRouting => {
+    if (routing[userId]) return routing[userId];
+    const agent = agents.find((a) => a.user_id === userId);
+    return { skills: agent?.skills ?? [], max_concurrent: agent?.max_concurrent ?? null };
+  };
+
+  const updateRouting = (userId: string, changes: Partial<AgentRouting>) =>
+    setRouting((prev) => ({ ...prev, [userId]: { ...routingOf(userId), ...changes } }));
+
+  const toggleSkill = (userId: string, skill: string) => {
+    const { skills } = routingOf(userId);
+    updateRouting(userId, {
+      skills: skills.includes(skill) ? skills.filter((s) => s !== skill) : [...skills, skill],
+    });
+  };
+
+  // The config document is saved whole; keep the other sections as loaded
+  const saveMutation = useMutation({
+    mutationFn: async (assignment: AssignmentConfig) => {
+      await businessConfigApi.save(businessId, { ...config, assignment });
+      await Promise.all(
+        Object.entries(routing).map(([userId, agentRouting]) => agentsApi.updateRouting(userId, agentRouting))
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["business-config", businessId] });
+      queryClient.invalidateQueries({ queryKey: ["agents"] });
+      toast.success("Assignment rules saved");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save assignment rules");
+    },
+  });
+
+  const handleSave = () => {
+    if (draft.max_concurrent <= 0) {
+      toast.error("Max concurrent chats must be greater than zero");
+      return;
+    }
+    if (Object.values(routing).some((r) => r.max_concurrent != null && r.max_concurrent <= 0)) {
+      toast.error("Agent limits must be greater than zero");
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const isAutomatic = draft.strategy !== "manual";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assignment Rules</DialogTitle>
+          <DialogDescription>
+            Applied when the bot hands a conversation to a human. Only online agents below their limit are picked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <RadioGroup
+              value={draft.strategy}
+              onValueChange={(strategy) => setDraft({ ...draft, strategy: strategy as AssignmentStrategy })}
+            >
+              {(Object.keys(ASSIGNMENT_STRATEGIES) as AssignmentStrategy[]).map((strategy) => (
+                <div key={strategy} className="flex items-start gap-2">
+                  <RadioGroupItem value={strategy} id={`strategy-${strategy}`} className="mt-0.5" />
+                  <Label htmlFor={`strategy-${strategy}`} className="font-normal cursor-pointer">
+                    <div className="font-medium">{ASSIGNMENT_STRATEGIES[strategy].label}</div>
+                    <div className="text-xs text-muted-foreground">{ASSIGNMENT_STRATEGIES[strategy].description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className={cn("space-y-3", !isAutomatic && "opacity-50")}>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="assign-skills" className="font-normal">
+                  Route by skills
+                  <div className="text-xs text-muted-foreground">
+                    Match the ticket's issue type or tags to agent skills
+                  </div>
+                </Label>
+                <Switch
+                  id="assign-skills"
+                  checked={draft.skill_routing}
+                  disabled={!isAutomatic}
+                  onCheckedChange={(skill_routing) => setDraft({ ...draft, skill_routing })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="assign-away" className="font-normal">
+                  Fall back to away agents
+                  <div className="text-xs text-muted-foreground">When nobody eligible is online</div>
+                </Label>
+                <Switch
+                  id="assign-away"
+                  checked={draft.fallback_to_away}
+                  disabled={!isAutomatic}
+                  onCheckedChange={(fallback_to_away) => setDraft({ ...draft, fallback_to_away })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="assign-max" className="font-normal">
+                  Max concurrent chats per agent
+                </Label>
+                <Input
+                  id="assign-max"
+                  type="number"
+                  min={1}
+                  className="w-20 h-8"
+                  value={draft.max_concurrent}
+                  disabled={!isAutomatic}
+                  onChange={(e) => setDraft({ ...draft, max_concurrent: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            {isAutomatic && agents.length > 0 && (
+              <div className="space-y-2">
+                <Label>Agents</Label>
+                <div className="divide-y divide-border rounded-md border border-border">
+                  {agents.map((agent) => {
+                    const agentRouting = routingOf(agent.user_id);
+                    return (
+                      <div key={agent.user_id} className="flex items-center gap-2 px-3 py-1.5">
+                        <span className={cn("h-2 w-2 shrink-0 rounded-full", AGENT_STATUS_DOT[agent.status ?? "offline"])} />
+                        <span className="flex-1 truncate text-sm">{agent.username}</span>
+                        {draft.skill_routing && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm" className="h-7 max-w-[160px] gap-1 text-xs">
+                                <span className="truncate">
+                                  {agentRouting.skills.length ? agentRouting.skills.join(", ") : "Any ticket"}
+                                </span>
+                                <ChevronDown className="h-3 w-3 shrink-0" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="max-h-64 overflow-y-auto">
+                              {skillOptions.length === 0 ? (
+                                <p className="px-2 py-1.5 text-xs text-muted-foreground">No issue types or tags yet</p>
+                              ) : (
+                                skillOptions.map((skill) => (
+                                  <DropdownMenuCheckboxItem
+                                    key={skill}
+                                    checked={agentRouting.skills.includes(skill)}
+                                    onCheckedChange={() => toggleSkill(agent.user_id, skill)}
+                                    onSelect={(e) => e.preventDefault()}
+                                  >
+                                    {skill}
+                                  </DropdownMenuCheckboxItem>
+                                ))
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-16 h-7 text-xs"
+                          placeholder={String(draft.max_concurrent)}
+                          title="Max concurrent chats (blank uses the default)"
+                          value={agentRouting.max_concurrent ?? ""}
+                          onChange={(e) =>
+                            updateRouting(agent.user_id, {
+                              max_concurrent: e.target.value === "" ? null : Number(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                {draft.skill_routing && (
+                  <p className="text-xs text-muted-foreground">
+                    Agents without skills take any ticket. Tickets nobody matches go to any eligible agent.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !config || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import { FileText, Mic, Video, X, AlertCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { formatFileSize } from "@/lib/attachments";
+import type { OutgoingMediaType } from "@/lib/apiClient";
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  type: OutgoingMediaType;
+  // Recorded in the cockpit; sent as a voice note
+  voice?: boolean;
+  // Object URL for images, audio and video
+  previewUrl?: string;
+  // 0..1 while uploading
+  progress?: number;
+  error?: string;
+}
+
+interface AttachmentTrayProps {
+  attachments: PendingAttachment[];
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function AttachmentTray({ attachments, onRemove, disabled }: AttachmentTrayProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2">
+      {attachments.map((attachment) => {
+        const isUploading = attachment.progress !== undefined;
+        return (
+          <div
+            key={attachment.id}
+            className={cn(
+              "relative shrink-0 rounded-lg border bg-muted/40 p-1.5",
+              attachment.error ? "border-destructive" : "border-border",
+              attachment.type === "audio" ? "w-64" : "w-28"
+            )}
+            title={attachment.error ?? `${attachment.file.name} · ${formatFileSize(attachment.file.size)}`}
+          >
+            {attachment.type === "image" && attachment.previewUrl ? (
+              <img src={attachment.previewUrl} alt={attachment.file.name} className="h-16 w-full rounded object-cover" />
+            ) : attachment.type === "audio" && attachment.previewUrl ? (
+              <div className="flex items-center gap-1.5">
+                <Mic className="h-4 w-4 shrink-0 text-emerald-600" />
+                <audio src={attachment.previewUrl} controls className="h-8 w-full" />
+              </div>
+            ) : (
+              <div className="h-16 flex flex-col items-center justify-center gap-1 text-muted-foreground">
+                {attachment.type === "video" ? <Video className="h-6 w-6" /> : <FileText className="h-6 w-6" />}
+                <span className="text-[10px] w-full truncate text-center">{attachment.file.name}</span>
+              </div>
+            )}
+
+            {attachment.type !== "audio" && (
+              <div className="text-[10px] text-muted-foreground mt-0.5 truncate">
+                {formatFileSize(attachment.file.size)}
+              </div>
+            )}
+
+            {isUploading && <Progress value={Math.round(attachment.progress * 100)} className="h-1 mt-1" />}
+            {attachment.error && (
+              <div className="flex items-center gap-1 text-[10px] text-destructive mt-0.5">
+                <AlertCircle className="h-3 w-3 shrink-0" />
+                <span className="truncate">Upload failed</span>
+              </div>
+            )}
+
+            {!isUploading && (
+              <button
+                type="button"
+                onClick={() => onRemove(attachment.id)}
+                disabled={disabled}
+                className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-foreground text-background flex items-center justify-center shadow disabled:opacity-50"
+                title="Remove"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
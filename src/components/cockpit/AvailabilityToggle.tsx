@@ -0,0 +1,66 @@
+import { toast } from "sonner";
+import { Check } from "lucide-react";
+import { useAgentStatus } from "@/hooks/use-assignment";
+import { AgentStatus } from "@/lib/apiClient";
+import { AGENT_STATUS_DOT, AGENT_STATUS_LABELS } from "@/lib/assignment";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const STATUS_HINTS: Record<AgentStatus, string> = {
+  online: "New escalations can be assigned to you",
+  away: "Only if nobody online can take them",
+  offline: "You won't be auto-assigned",
+};
+
+/** Header control for the signed-in agent's availability for auto-assignment. */
+export function AvailabilityToggle() {
+  const { status, setStatus, isPending } = useAgentStatus();
+
+  const handleSelect = async (next: AgentStatus) => {
+    if (next === status) return;
+    try {
+      await setStatus(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update status");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1.5 px-2 text-muted-foreground"
+          disabled={isPending}
+          title="Availability"
+        >
+          <span className={cn("h-2 w-2 rounded-full", AGENT_STATUS_DOT[status])} />
+          <span className="hidden sm:inline text-xs">{AGENT_STATUS_LABELS[status]}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel className="text-xs">Availability</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(AGENT_STATUS_LABELS) as AgentStatus[]).map((option) => (
+          <DropdownMenuItem key={option} onSelect={() => handleSelect(option)} className="items-start gap-2">
+            <span className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", AGENT_STATUS_DOT[option])} />
+            <div className="flex-1">
+              <div className="text-sm">{AGENT_STATUS_LABELS[option]}</div>
+              <div className="text-xs text-muted-foreground">{STATUS_HINTS[option]}</div>
+            </div>
+            {option === status && <Check className="mt-0.5 h-4 w-4" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Bot, CheckCircle, Download, Tag, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAgents } from "@/hooks/use-agents";
+import { useTags } from "@/hooks/use-tags";
+import { BulkAction } from "@/lib/bulkActions";
+import { ResolveDialog } from "./ResolveDialog";
+
+interface BulkActionBarProps {
+  checkedCount: number;
+  allChecked: boolean;
+  onToggleAll: () => void;
+  onClear: () => void;
+  onAction: (action: BulkAction) => void;
+  onExport?: () => void;
+}
+
+export function BulkActionBar({ checkedCount, allChecked, onToggleAll, onClear, onAction, onExport }: BulkActionBarProps) {
+  const { data: agents } = useAgents();
+  const { tags } = useTags();
+  const [isResolveOpen, setIsResolveOpen] = useState(false);
+
+  return (
+    <div className="p-2 border-t border-border bg-primary/10 flex items-center gap-1">
+      <Checkbox checked={allChecked} onCheckedChange={onToggleAll} className="mx-1.5" title="Select all loaded tickets" />
+      <span className="text-xs font-medium flex-1 truncate">{checkedCount} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Assign">
+            <UserPlus className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-64 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs">Assign to</DropdownMenuLabel>
+          {agents?.map((agent) => (
+            <DropdownMenuItem
+              key={agent.user_id}
+              onClick={() => onAction({ kind: "assign", userId: agent.user_id, username: agent.username })}
+            >
+              {agent.username}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Add tag">
+            <Tag className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-64 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs">Add tag</DropdownMenuLabel>
+          {tags.length === 0 && (
+            <DropdownMenuItem disabled className="text-xs">
+              No tags set up
+            </DropdownMenuItem>
+          )}
+          {tags.map((tag) => (
+            <DropdownMenuItem key={tag.id} onClick={() => onAction({ kind: "tag", tag: tag.name })}>
+              {tag.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Re-enable AI"
+        onClick={() => onAction({ kind: "enable_ai" })}
+      >
+        <Bot className="h-4 w-4" />
+      </Button>
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Resolve" onClick={() => setIsResolveOpen(true)}>
+        <CheckCircle className="h-4 w-4" />
+      </Button>
+
+      {onExport && (
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Export transcripts" onClick={onExport}>
+          <Download className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Clear selection" onClick={onClear}>
+        <X className="h-4 w-4" />
+      </Button>
+
+      <ResolveDialog
+        open={isResolveOpen}
+        onOpenChange={setIsResolveOpen}
+        onConfirm={(resolution) => onAction({ kind: "resolve", resolution })}
+        count={checkedCount}
+      />
+    </div>
+  );
+}
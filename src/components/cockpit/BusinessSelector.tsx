@@ -7,6 +7,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useAuth } from "@/contexts/AuthContext";
+import { BUSINESSES } from "@/lib/businesses";
 
 export function BusinessSelector() {
   const { user, switchBusiness } = useAuth();
@@ -32,8 +33,11 @@ export function BusinessSelector() {
         <SelectValue placeholder={isLoading ? "Switching..." : "Select business"} />
       </SelectTrigger>
       <SelectContent>
-        <SelectItem value="feelori">Feelori</SelectItem>
-        <SelectItem value="goldencollections">Golden Collections</SelectItem>
+        {BUSINESSES.map((business) => (
+          <SelectItem key={business.id} value={business.id}>
+            {business.name}
+          </SelectItem>
+        ))}
       </SelectContent>
     </Select>
   );
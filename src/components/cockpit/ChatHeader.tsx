@@ -1,10 +1,22 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { CheckCircle, Loader2, Bot, ArrowLeft } from "lucide-react";
+import { CheckCircle, Loader2, Bot, ArrowLeft, PanelRight, Download } from "lucide-react";
 import { Ticket } from "./TicketCard";
 import { AgentSelector } from "./AgentSelector";
+import { TagEditor } from "./TagEditor";
+import { ResolveDialog } from "./ResolveDialog";
+import { PauseAiDialog } from "./PauseAiDialog";
+import { ExportTranscriptDialog } from "./ExportTranscriptDialog";
+import { PresenceAvatars } from "./PresenceAvatars";
+import { ServiceWindowChip } from "./ServiceWindowChip";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useRegisterCommands } from "@/hooks/use-commands";
+import { AiPause, ConversationTagging, Resolution } from "@/lib/apiClient";
+import type { PresenceEntry } from "@/lib/presence";
+import type { ServiceWindow } from "@/lib/serviceWindow";
 
 interface ChatHeaderProps {
   ticket: Ticket;
@@ -12,9 +24,16 @@ interface ChatHeaderProps {
   isResolving: boolean;
   isTogglingAi?: boolean;
   onAssign: (userId: string) => void;
-  onResolve: () => void;
-  onToggleAi?: (enabled: boolean) => void;
+  onResolve: (resolution: Resolution) => void;
+  onUpdateTags?: (tagging: ConversationTagging) => void;
+  onToggleAi?: (enabled: boolean, pause?: AiPause) => void;
   onBack?: () => void;
+  isProfileOpen?: boolean;
+  onToggleProfile?: () => void;
+  // Other agents who have the conversation open
+  viewers?: PresenceEntry[];
+  // WhatsApp 24h reply window, once the thread has loaded
+  serviceWindow?: ServiceWindow | null;
 }
 
 export function ChatHeader({
@@ -24,10 +43,44 @@ export function ChatHeader({
   isTogglingAi,
   onAssign,
   onResolve,
+  onUpdateTags,
   onToggleAi,
   onBack,
+  isProfileOpen,
+  onToggleProfile,
+  viewers = [],
+  serviceWindow,
 }: ChatHeaderProps) {
   const isMobile = useIsMobile();
+  const [isResolveOpen, setIsResolveOpen] = useState(false);
+  // Turning the switch off asks why and for how long
+  const [isPauseOpen, setIsPauseOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const isResolved = ticket.status === "resolved";
+
+  // The palette and the "r" shortcut open the same dialog as the button; gone once resolved
+  useRegisterCommands([
+    ...(isResolved
+      ? []
+      : [
+          {
+            id: "ticket.resolve",
+            label: "Resolve ticket",
+            group: "Conversation",
+            shortcut: "r",
+            keywords: ["close", "done"],
+            run: () => !isAssigning && !isResolving && setIsResolveOpen(true),
+          },
+        ]),
+    {
+      id: "ticket.export",
+      label: "Export transcript",
+      group: "Conversation",
+      keywords: ["pdf", "csv", "download", "dispute", "chargeback"],
+      run: () => setIsExportOpen(true),
+    },
+  ]);
   const isAiActive = ticket.ai_enabled === true && ticket.ai_paused_by === null;
 
   return (
@@ -42,13 +95,34 @@ export function ChatHeader({
           <div className="font-mono text-sm font-medium text-foreground">
             {ticket.customer_phone || ticket.phone}
           </div>
-          <div className="text-xs text-muted-foreground">
-            Ticket: {ticket._id.slice(-8)}
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <span className="mr-1">Ticket: {ticket._id.slice(-8)}</span>
+            {serviceWindow && <ServiceWindowChip serviceWindow={serviceWindow} className="mr-1" />}
+            {ticket.issue_type && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                {ticket.issue_type}
+              </Badge>
+            )}
+            {ticket.tags?.map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">
+                {tag}
+              </Badge>
+            ))}
+            {onUpdateTags && (
+              <TagEditor
+                issueType={ticket.issue_type ?? null}
+                tags={ticket.tags ?? []}
+                onChange={onUpdateTags}
+                disabled={isResolving}
+              />
+            )}
           </div>
         </div>
       </div>
 
       <div className="flex items-center gap-3">
+        <PresenceAvatars entries={viewers} />
+
         {/* AI Toggle */}
         {onToggleAi && (
           <div className="flex items-center gap-2">
@@ -56,7 +130,7 @@ export function ChatHeader({
             <Switch
               id="ai-toggle"
               checked={isAiActive}
-              onCheckedChange={onToggleAi}
+              onCheckedChange={(checked) => (checked ? onToggleAi(true) : setIsPauseOpen(true))}
               disabled={isTogglingAi || isAssigning || isResolving}
             />
             <Label htmlFor="ai-toggle" className="text-xs text-muted-foreground cursor-pointer">
@@ -74,8 +148,8 @@ export function ChatHeader({
         <Button
           variant="default"
           size="sm"
-          onClick={onResolve}
-          disabled={isAssigning || isResolving}
+          onClick={() => setIsResolveOpen(true)}
+          disabled={isResolved || isAssigning || isResolving}
         >
           {isResolving ? (
             <Loader2 className="h-4 w-4 animate-spin" />
@@ -86,7 +160,35 @@ export function ChatHeader({
             </>
           )}
         </Button>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setIsExportOpen(true)}
+          title="Export transcript"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+
+        {onToggleProfile && (
+          <Button
+            variant={isProfileOpen ? "secondary" : "ghost"}
+            size="icon"
+            className="h-8 w-8"
+            onClick={onToggleProfile}
+            title="Customer profile"
+          >
+            <PanelRight className="h-4 w-4" />
+          </Button>
+        )}
       </div>
+
+      <ResolveDialog open={isResolveOpen} onOpenChange={setIsResolveOpen} onConfirm={onResolve} />
+      <ExportTranscriptDialog open={isExportOpen} onOpenChange={setIsExportOpen} tickets={[ticket]} />
+      {onToggleAi && (
+        <PauseAiDialog open={isPauseOpen} onOpenChange={setIsPauseOpen} onConfirm={(pause) => onToggleAi(false, pause)} />
+      )}
     </div>
   );
 }
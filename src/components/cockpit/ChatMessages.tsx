@@ -1,33 +1,39 @@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-import { cn } from "@/lib/utils";
+import { cn, normalizeUTC } from "@/lib/utils";
 import { useEffect, useRef, useState, useCallback } from "react";
 import { SecureImage } from "./SecureImage";
-import { ChevronDown, Check, CheckCheck, UserRound, Bot, Megaphone } from "lucide-react";
+import { MessageBody, QuotedMessage } from "./MessageBody";
+import {
+  buildReactionIndex,
+  ContextPayload,
+  FILE_MESSAGE_TYPES,
+  getMessageKey,
+  getPayload,
+  rendersOwnText,
+} from "@/lib/whatsappMessages";
+import { splitMentions } from "@/lib/mentions";
+import { describeDeliveryFailure } from "@/lib/deliveryStatus";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { AiEvent, Message, MessageStatus } from "@/lib/apiClient";
+import { ChevronDown, Check, CheckCheck, UserRound, Bot, Megaphone, Clock, AlertCircle, RotateCw, StickyNote, PauseCircle, PlayCircle, Hand, Trash2 } from "lucide-react";
 import { format, isToday, isYesterday } from "date-fns";
 
-export type MessageStatus = "sending" | "sent" | "delivered" | "read";
-
-export interface Message {
-  id?: string;
-  _id?: string;
-  text?: string;
-  content?: string;
-  sender: "user" | "agent" | "bot";
-  direction?: "inbound" | "outbound";
-  timestamp?: string;
-  created_at?: string;
-  image_media_id?: string;
-  status?: MessageStatus;
-  source?: "customer" | "bot" | "agent" | "system" | "broadcast" | "ai";
-}
-
 interface ChatMessagesProps {
   messages: Message[] | undefined;
   isLoading: boolean;
   isError: boolean;
   isAgentTyping?: boolean;
+  onRetry?: (messageId: string) => void;
+  // Drops a reply the backend rejected from the outbox
+  onDiscard?: (messageId: string) => void;
+  // Scrolled into view and highlighted (search "jump to message")
+  focusMessageId?: string | null;
+  // Called once the focused message has been scrolled to and highlighted
+  onFocusHandled?: () => void;
+  // Agent's read marker when the conversation was opened; newer customer messages sit under a divider
+  lastReadAt?: string | null;
 }
 
 function cleanContent(content: string): string {
@@ -57,9 +63,6 @@ function isAgentEntryMessage(content: string, direction?: string): boolean {
   return cleaned.startsWith("👋 Hi, I'm");
 }
 
-const normalizeUTC = (dateStr: string) =>
-  dateStr.endsWith("Z") ? dateStr : `${dateStr}Z`;
-
 function getMessageDate(msg: Message): Date {
   const time = msg.timestamp || msg.created_at;
   return time ? new Date(normalizeUTC(time)) : new Date();
@@ -91,8 +94,120 @@ function TypingIndicator() {
   );
 }
 
+function InternalNoteCard({ note, time }: { note: Message; time?: string }) {
+  return (
+    <div className="flex justify-center my-2">
+      <div className="w-[85%] rounded-md border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40 px-3 py-2 text-sm">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-amber-700 dark:text-amber-400 mb-1">
+          <StickyNote className="h-3 w-3" />
+          <span>Internal note{note.author_name && ` · ${note.author_name}`}</span>
+          {time && (
+            <span className="ml-auto font-normal opacity-70">
+              {new Date(normalizeUTC(time)).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+            </span>
+          )}
+        </div>
+        <p className="whitespace-pre-wrap break-words text-amber-950 dark:text-amber-100">
+          {splitMentions(note.text || note.content || "").map((part, idx) =>
+            part.isMention ? (
+              <span key={idx} className="font-medium text-amber-700 dark:text-amber-300">
+                {part.text}
+              </span>
+            ) : (
+              part.text
+            )
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// How long a search hit stays highlighted after the jump
+const FOCUS_HIGHLIGHT_MS = 3000;
+
+const AI_EVENT_STYLE: Record<AiEvent["kind"], { icon: typeof Bot; className: string }> = {
+  paused: { icon: PauseCircle, className: "bg-amber-50 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400" },
+  resumed: { icon: PlayCircle, className: "bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400" },
+  auto_resumed: { icon: PlayCircle, className: "bg-emerald-50 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400" },
+  escalated: { icon: Hand, className: "bg-orange-50 text-orange-700 dark:bg-orange-950/40 dark:text-orange-400" },
+  released: { icon: Bot, className: "bg-sky-50 text-sky-700 dark:bg-sky-950/40 dark:text-sky-400" },
+};
+
+function AiEventBanner({ event, text, time }: { event: AiEvent; text: string; time?: string }) {
+  const { icon: Icon, className } = AI_EVENT_STYLE[event.kind] ?? AI_EVENT_STYLE.released;
+  return (
+    <div className="flex justify-center my-2">
+      <div className={cn("rounded-full py-1 px-3 flex items-center gap-2 text-xs", className)}>
+        <Icon className="h-3 w-3 shrink-0" />
+        <span>{text}</span>
+        {time && (
+          <span className="opacity-60">
+            {new Date(normalizeUTC(time)).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface DeliveryFailureProps {
+  message: Message;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+}
+
+function DeliveryFailure({ message, onRetry, onDiscard }: DeliveryFailureProps) {
+  const failure = describeDeliveryFailure(message);
+  const messageId = message.id || message._id;
+  // Outbox entries never reached the backend; everything else was sent and then rejected
+  const isQueued = !!message.is_queued;
+
+  return (
+    <div className="flex justify-end items-center gap-2 mt-1 text-xs text-destructive">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="inline-flex items-center gap-1 cursor-help underline decoration-dotted underline-offset-2">
+            {isQueued ? "Not sent" : "Not delivered"}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="left" className="max-w-xs text-xs">
+          <p>{failure.reason}</p>
+          {failure.code && <p className="mt-1 font-mono opacity-70">WhatsApp error {failure.code}</p>}
+        </TooltipContent>
+      </Tooltip>
+      {onRetry && messageId && failure.canResend && (
+        <button
+          type="button"
+          onClick={() => onRetry(messageId)}
+          className="inline-flex items-center gap-1 font-medium hover:underline"
+        >
+          <RotateCw className="h-3 w-3" />
+          {isQueued ? "Retry" : "Resend"}
+        </button>
+      )}
+      {onDiscard && messageId && isQueued && (
+        <button
+          type="button"
+          onClick={() => onDiscard(messageId)}
+          className="inline-flex items-center gap-1 font-medium hover:underline"
+        >
+          <Trash2 className="h-3 w-3" />
+          Discard
+        </button>
+      )}
+    </div>
+  );
+}
+
 function DeliveryStatus({ status }: { status?: MessageStatus }) {
-  if (!status || status === "sending") {
+  if (status === "sending") {
+    return <Clock className="h-3 w-3 text-emerald-600/50" />;
+  }
+  if (status === "failed") {
+    return <AlertCircle className="h-3 w-3 text-destructive" />;
+  }
+  if (!status) {
     return <Check className="h-3 w-3 text-emerald-600/50" />;
   }
   if (status === "sent") {
@@ -105,7 +220,17 @@ function DeliveryStatus({ status }: { status?: MessageStatus }) {
   return <CheckCheck className="h-3 w-3 text-sky-500" />;
 }
 
-export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: ChatMessagesProps) {
+export function ChatMessages({
+  messages,
+  isLoading,
+  isError,
+  isAgentTyping,
+  onRetry,
+  onDiscard,
+  focusMessageId,
+  onFocusHandled,
+  lastReadAt,
+}: ChatMessagesProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
@@ -114,10 +239,33 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
+  // Follow the bottom when a message is added, not every time the parent rebuilds the array
+  const lastMessage = messages?.[messages.length - 1];
+  const lastMessageKey = lastMessage ? `${messages.length}:${lastMessage.id || lastMessage._id || lastMessage.timestamp}` : null;
   useEffect(() => {
-    // Auto-scroll to bottom when messages change
     bottomRef.current?.scrollIntoView({ behavior: "auto" });
-  }, [messages]);
+  }, [lastMessageKey]);
+
+  // Jump to the focused message once it is rendered, once per id
+  const handledFocusIdRef = useRef<string | null>(null);
+  const focusTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const onFocusHandledRef = useRef(onFocusHandled);
+  onFocusHandledRef.current = onFocusHandled;
+  useEffect(() => {
+    if (!focusMessageId) {
+      handledFocusIdRef.current = null;
+      return;
+    }
+    if (handledFocusIdRef.current === focusMessageId) return;
+    const focused = scrollRef.current?.querySelector(`[data-message-id="${CSS.escape(focusMessageId)}"]`);
+    if (!focused) return;
+    handledFocusIdRef.current = focusMessageId;
+    focused.scrollIntoView({ behavior: "auto", block: "center" });
+    // Keep the highlight briefly, then let the parent clear it
+    clearTimeout(focusTimeoutRef.current);
+    focusTimeoutRef.current = setTimeout(() => onFocusHandledRef.current?.(), FOCUS_HIGHLIGHT_MS);
+  }, [messages, focusMessageId]);
+  useEffect(() => () => clearTimeout(focusTimeoutRef.current), []);
 
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
     const target = e.target as HTMLDivElement;
@@ -153,11 +301,26 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
     );
   }
 
+  const lastReadDate = lastReadAt ? new Date(normalizeUTC(lastReadAt)) : null;
+  // Reactions are shown on the message they point at, not as bubbles of their own
+  const threadMessages = messages.filter((m) => m.message_type !== "reaction");
+  const reactionIndex = buildReactionIndex(messages);
+  const messagesByKey = new Map(threadMessages.map((m) => [getMessageKey(m), m]));
+
+  const jumpToMessage = (messageId: string) =>
+    scrollRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(messageId)}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+  const firstUnreadIndex = lastReadDate
+    ? threadMessages.findIndex((m) => m.sender === "user" && getMessageDate(m) > lastReadDate)
+    : -1;
+
   return (
     <div className="flex-1 relative overflow-hidden">
       <ScrollArea className="h-full" ref={scrollRef} onScrollCapture={handleScroll}>
         <div className="p-4 space-y-3">
-          {messages.map((msg, idx) => {
+          {threadMessages.map((msg, idx) => {
             // PRIMARY: Use text, FALLBACK: Use content
             const displayContent = msg.text || msg.content || "";
             
@@ -171,7 +334,7 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
             const msgDate = getMessageDate(msg);
             
             // Check if we need a date separator
-            const prevMsg = idx > 0 ? messages[idx - 1] : null;
+            const prevMsg = idx > 0 ? threadMessages[idx - 1] : null;
             const prevDate = prevMsg ? getMessageDate(prevMsg) : null;
             const showDateSeparator = !prevDate || !isSameDay(msgDate, prevDate);
 
@@ -185,18 +348,21 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
             // Check if this is a broadcast message
             const isBroadcast = msg.source === "broadcast";
 
+            // media_id on audio/video/documents/stickers is theirs, not an image
+            const isFileMessage = FILE_MESSAGE_TYPES.includes(msg.message_type);
+
             // Improved image detection for all WhatsApp formats
             const imageId =
               msg.image_media_id ||
               (msg as any).image?.id ||
-              (msg as any).media_id ||
+              (isFileMessage ? null : msg.media_id) ||
               (msg as any).metadata?.media_id ||
               (hasVisualSearch ? visualSearchMediaId : null);
             const hasImage = Boolean(imageId);
 
             // Only skip if message has no text, no content, no media, and no message_type
             // Always render bot messages even if empty
-            const hasMessageType = Boolean((msg as any).message_type);
+            const hasMessageType = Boolean(msg.message_type);
             const shouldSkip = !displayContent && !hasImage && !hasMessageType && msg.sender !== "bot";
             
             if (shouldSkip) {
@@ -213,8 +379,20 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
               return null;
             }
 
+            const messageId = msg.id || msg._id;
+            const isFocused = !!focusMessageId && messageId === focusMessageId;
+
+            // Customer swiped to reply: quote the original if it is in the loaded thread
+            const context = getPayload<ContextPayload>(msg, "context");
+            const quoted = context?.id ? messagesByKey.get(context.id) ?? null : null;
+            const reactions = reactionIndex.get(getMessageKey(msg));
+
             return (
-              <div key={msg.id || msg._id || idx}>
+              <div
+                key={messageId || idx}
+                data-message-id={messageId}
+                className={cn(isFocused && "rounded-lg ring-2 ring-yellow-400 ring-offset-2 transition-shadow")}
+              >
                 {showDateSeparator && (
                   <div className="flex justify-center my-4">
                     <span className="bg-muted text-muted-foreground text-xs px-3 py-1 rounded-full">
@@ -222,9 +400,21 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
                     </span>
                   </div>
                 )}
+
+                {idx === firstUnreadIndex && (
+                  <div className="flex items-center gap-2 my-3">
+                    <div className="flex-1 h-px bg-emerald-500/50" />
+                    <span className="text-xs font-medium text-emerald-600">New messages</span>
+                    <div className="flex-1 h-px bg-emerald-500/50" />
+                  </div>
+                )}
                 
-                {/* Render as system banner for system messages */}
-                {isSystemMessage ? (
+                {/* Internal notes and system messages sit across the thread, not in a bubble */}
+                {msg.source === "note" ? (
+                  <InternalNoteCard note={msg} time={time} />
+                ) : msg.ai_event ? (
+                  <AiEventBanner event={msg.ai_event} text={displayContent} time={time} />
+                ) : isSystemMessage ? (
                   <div className="flex justify-center my-2">
                     <div className="w-full bg-slate-50 rounded-md py-1 px-3 flex items-center justify-center gap-2">
                       <UserRound className="h-3 w-3 text-muted-foreground" />
@@ -245,6 +435,12 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
                             : "bg-emerald-100 text-emerald-900 rounded-lg rounded-tr-none"
                       )}
                     >
+                      {context?.id && (
+                        <QuotedMessage
+                          quoted={quoted}
+                          onJump={quoted ? () => jumpToMessage(quoted.id || quoted._id) : undefined}
+                        />
+                      )}
                       {/* Render image using unified imageId */}
                       {imageId && (
                         <SecureImage
@@ -253,8 +449,9 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
                           className="mb-2 rounded-lg max-w-[200px]"
                         />
                       )}
+                      <MessageBody message={msg} isEmpty={!displayContent && !hasImage} />
                       {/* Render text content (skip if it's only a visual_search pattern) */}
-                      {displayContent && !hasVisualSearch && (
+                      {displayContent && !hasVisualSearch && !rendersOwnText(msg) && (
                         <p className="whitespace-pre-wrap break-words">{cleanContent(displayContent)}</p>
                       )}
                       {time && (
@@ -291,6 +488,14 @@ export function ChatMessages({ messages, isLoading, isError, isAgentTyping }: Ch
                     </div>
                   </div>
                 )}
+                {reactions && (
+                  <div className={cn("flex -mt-1.5 relative", isInbound ? "justify-start pl-3" : "justify-end pr-3")}>
+                    <span className="rounded-full border border-border bg-card px-1.5 text-sm leading-5 shadow-sm">
+                      {reactions.join(" ")}
+                    </span>
+                  </div>
+                )}
+                {msg.status === "failed" && <DeliveryFailure message={msg} onRetry={onRetry} onDiscard={onDiscard} />}
               </div>
             );
           })}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Building2, Check, MessageSquare, Search, type LucideIcon } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { useCommands } from "@/hooks/use-commands";
+import { conversationsApi } from "@/lib/apiClient";
+import { BUSINESSES } from "@/lib/businesses";
+import { getCommands, shouldIgnoreHotkey } from "@/lib/commands";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+const MAX_CONVERSATION_RESULTS = 8;
+
+interface PageLink {
+  path: string;
+  label: string;
+  icon: LucideIcon;
+}
+
+interface CommandPaletteProps {
+  pages: PageLink[];
+}
+
+/**
+ * Ctrl/Cmd+K palette: jump to a conversation, run the commands pages have
+ * registered, change page or business. Also dispatches the single-key
+ * shortcuts of registered commands.
+ */
+export function CommandPalette({ pages }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { user, switchBusiness } = useAuth();
+  const { businessId } = useBusiness();
+  const commands = useCommands();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+        return;
+      }
+      if (shouldIgnoreHotkey(event)) return;
+      const command = getCommands().find((c) => c.shortcut === event.key);
+      if (!command) return;
+      event.preventDefault();
+      command.run();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const isSearchActive = open && debouncedQuery.length >= SEARCH_MIN_LENGTH;
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ["conversation-search", businessId, debouncedQuery, MAX_CONVERSATION_RESULTS],
+    queryFn: () => conversationsApi.search(debouncedQuery, MAX_CONVERSATION_RESULTS),
+    enabled: isSearchActive,
+  });
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const groups = Array.from(new Set(commands.map((c) => c.group)));
+  const currentBusinessId = user?.tenant_id || "feelori";
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 gap-2 px-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+        title="Command palette (Ctrl+K)"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden sm:inline text-xs">Search or jump to…</span>
+        <kbd className="hidden sm:inline rounded border border-border px-1 font-mono text-[10px]">Ctrl K</kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput value={query} onValueChange={setQuery} placeholder="Type a command or search by phone…" />
+        <CommandList>
+          <CommandEmpty>{isFetching ? "Searching…" : "No results"}</CommandEmpty>
+
+          {isSearchActive && results.length > 0 && (
+            <CommandGroup heading="Conversations">
+              {results.map((result) => (
+                <CommandItem
+                  key={result.conversation.id}
+                  value={`conversation ${result.conversation.id}`}
+                  // Already matched by the server; keep cmdk from filtering them out
+                  keywords={[query]}
+                  onSelect={() =>
+                    run(() =>
+                      navigate("/conversations", {
+                        state: { conversationId: result.conversation.id, conversation: result.conversation },
+                      })
+                    )
+                  }
+                >
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  <span className="font-mono">{result.conversation.phone}</span>
+                  {result.customer_name && <span className="ml-2 truncate">{result.customer_name}</span>}
+                  <span className="ml-auto pl-2 truncate text-xs text-muted-foreground max-w-[45%]">
+                    {result.snippet}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {groups.map((group) => (
+            <CommandGroup key={group} heading={group}>
+              {commands
+                .filter((c) => c.group === group)
+                .map((command) => (
+                  <CommandItem
+                    key={command.id}
+                    value={`${command.group} ${command.label}`}
+                    keywords={command.keywords}
+                    onSelect={() => run(command.run)}
+                  >
+                    {command.label}
+                    {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+            </CommandGroup>
+          ))}
+
+          <CommandGroup heading="Go to">
+            {pages.map((page) => (
+              <CommandItem key={page.path} value={`go to ${page.label}`} onSelect={() => run(() => navigate(page.path))}>
+                <page.icon className="mr-2 h-4 w-4" />
+                {page.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+
+          <CommandGroup heading="Business">
+            {BUSINESSES.map((business) => (
+              <CommandItem
+                key={business.id}
+                value={`switch business ${business.name}`}
+                disabled={business.id === currentBusinessId}
+                onSelect={() => run(() => void switchBusiness(business.id))}
+              >
+                <Building2 className="mr-2 h-4 w-4" />
+                {business.name}
+                {business.id === currentBusinessId && <Check className="ml-auto h-4 w-4" />}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,213 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { UserRound, Package, MessageSquare, Users, X } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn, normalizeUTC } from "@/lib/utils";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { broadcastsApi, customersApi } from "@/lib/apiClient";
+import { packingApi, PackingOrder } from "@/lib/packingApi";
+
+interface CustomerProfilePanelProps {
+  phone: string;
+  conversationId: string;
+  onClose?: () => void;
+  className?: string;
+}
+
+const MAX_ORDERS = 5;
+
+const ORDER_STATUS_CLASS: Record<PackingOrder["status"], string> = {
+  Pending: "border-warning text-warning",
+  "In Progress": "border-primary text-primary",
+  "On Hold": "border-destructive text-destructive",
+  Completed: "border-success text-success",
+};
+
+// Shopify, WhatsApp and broadcast groups format numbers differently (+91, spaces, leading 0);
+// compare on the last 10 digits
+const phoneKey = (phone: string) => phone.replace(/\D/g, "").slice(-10);
+
+const timeAgo = (dateStr: string | null) =>
+  dateStr ? formatDistanceToNow(new Date(normalizeUTC(dateStr)), { addSuffix: true }) : "—";
+
+function Section({ icon: Icon, title, children }: { icon: typeof UserRound; title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+        <Icon className="h-3.5 w-3.5" />
+        {title}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function SectionSkeleton() {
+  return (
+    <div className="space-y-2">
+      <Skeleton className="h-10 w-full" />
+      <Skeleton className="h-10 w-full" />
+    </div>
+  );
+}
+
+export function CustomerProfilePanel({ phone, conversationId, onClose, className }: CustomerProfilePanelProps) {
+  const { businessId } = useBusiness();
+  const key = phoneKey(phone);
+
+  const { data: profile, isLoading: isLoadingProfile, isError: isProfileError } = useQuery({
+    queryKey: ["customer", businessId, phone],
+    queryFn: () => customersApi.getProfile(phone),
+    enabled: !!phone,
+  });
+
+  // The packing API has no phone lookup; the queue is small enough to filter client-side.
+  // Matched on the last 10 digits, since packing and WhatsApp format numbers differently
+  const { data: orders, isLoading: isLoadingOrders, isError: isOrdersError } = useQuery({
+    queryKey: ["packing-orders", businessId, "all"],
+    queryFn: () => packingApi.getOrders(businessId, "all"),
+    enabled: !!key,
+    staleTime: 60 * 1000,
+    select: (all) =>
+      all
+        .filter((order) => order.customer.phone && phoneKey(order.customer.phone) === key)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, MAX_ORDERS),
+  });
+
+  const { data: groups, isLoading: isLoadingGroups, isError: isGroupsError } = useQuery({
+    queryKey: ["broadcast-groups", businessId],
+    queryFn: broadcastsApi.getGroups,
+    staleTime: 5 * 60 * 1000,
+    select: (all) => all.filter((group) => group.phone_numbers.some((p) => phoneKey(p) === key)),
+  });
+
+  const pastConversations = profile?.conversations.filter((c) => c.id !== conversationId) ?? [];
+  const counts = profile?.message_counts;
+
+  return (
+    <div className={cn("w-72 shrink-0 border-l border-border bg-muted/10 flex flex-col h-full", className)}>
+      <div className="flex items-center justify-between p-3 border-b border-border">
+        <span className="text-sm font-medium">Customer</span>
+        {onClose && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-5">
+          <Section icon={UserRound} title="Profile">
+            {isLoadingProfile ? (
+              <SectionSkeleton />
+            ) : (
+              <div className="space-y-2">
+                <div>
+                  <div className="font-medium text-sm">
+                    {profile?.name || <span className="text-muted-foreground">Unknown customer</span>}
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground">{phone}</div>
+                </div>
+                {isProfileError ? (
+                  <p className="text-xs text-destructive">Failed to load profile</p>
+                ) : (
+                  counts && (
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div className="rounded-md bg-muted/50 py-1.5">
+                        <div className="text-sm font-semibold">{counts.inbound + counts.outbound}</div>
+                        <div className="text-[10px] text-muted-foreground">Messages</div>
+                      </div>
+                      <div className="rounded-md bg-muted/50 py-1.5">
+                        <div className="text-sm font-semibold">{counts.inbound}</div>
+                        <div className="text-[10px] text-muted-foreground">Received</div>
+                      </div>
+                      <div className="rounded-md bg-muted/50 py-1.5">
+                        <div className="text-sm font-semibold">{counts.outbound}</div>
+                        <div className="text-[10px] text-muted-foreground">Sent</div>
+                      </div>
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+          </Section>
+
+          <Section icon={Package} title="Recent Orders">
+            {isLoadingOrders ? (
+              <SectionSkeleton />
+            ) : isOrdersError ? (
+              <p className="text-xs text-destructive">Failed to load orders</p>
+            ) : !orders?.length ? (
+              <p className="text-xs text-muted-foreground">No orders in the packing queue</p>
+            ) : (
+              <div className="space-y-2">
+                {orders.map((order) => (
+                  <div key={order.order_id} className="rounded-md border border-border bg-card p-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{order.order_number}</span>
+                      <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0", ORDER_STATUS_CLASS[order.status])}>
+                        {order.status}
+                      </Badge>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {timeAgo(order.created_at)}
+                      {order.item_count ? ` · ${order.item_count} item${order.item_count === 1 ? "" : "s"}` : ""}
+                    </div>
+                    {order.status === "On Hold" && order.hold_reason && (
+                      <div className="text-destructive">Hold: {order.hold_reason}</div>
+                    )}
+                    {order.packer_name && <div className="text-muted-foreground">Packer: {order.packer_name}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </Section>
+
+          <Section icon={MessageSquare} title="Past Conversations">
+            {isLoadingProfile ? (
+              <SectionSkeleton />
+            ) : pastConversations.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No earlier conversations</p>
+            ) : (
+              <div className="space-y-2">
+                {pastConversations.map((conv) => (
+                  <div key={conv.id} className="rounded-md border border-border bg-card p-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0 capitalize">
+                        {conv.status.replace(/_/g, " ")}
+                      </Badge>
+                      <span className="text-muted-foreground">{timeAgo(conv.last_at)}</span>
+                    </div>
+                    {conv.preview && <p className="text-muted-foreground truncate">{conv.preview}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </Section>
+
+          <Section icon={Users} title="Broadcast Groups">
+            {isLoadingGroups ? (
+              <SectionSkeleton />
+            ) : isGroupsError ? (
+              <p className="text-xs text-destructive">Failed to load groups</p>
+            ) : !groups?.length ? (
+              <p className="text-xs text-muted-foreground">Not in any group</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {groups.map((group) => (
+                  <Badge key={group._id} variant="outline" className="text-xs">
+                    {group.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </Section>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
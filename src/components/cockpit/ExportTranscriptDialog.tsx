@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { runInBatches } from "@/lib/bulkActions";
+import {
+  buildTranscriptCsv,
+  buildTranscriptHtml,
+  DEFAULT_TRANSCRIPT_OPTIONS,
+  downloadFile,
+  loadTranscript,
+  loadTranscriptImages,
+  printHtml,
+  Transcript,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  TranscriptOptions,
+  TranscriptRedaction,
+  transcriptFilename,
+} from "@/lib/transcripts";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Ticket } from "./TicketCard";
+
+interface ExportTranscriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tickets: Ticket[];
+}
+
+const REDACTION_OPTIONS: { key: keyof TranscriptRedaction; label: string }[] = [
+  { key: "cards", label: "Card and account numbers (keep last 4)" },
+  { key: "phones", label: "Phone numbers" },
+  { key: "emails", label: "Email addresses" },
+  { key: "agentNames", label: "Agent names" },
+];
+
+export function ExportTranscriptDialog({ open, onOpenChange, tickets }: ExportTranscriptDialogProps) {
+  const [options, setOptions] = useState<TranscriptOptions>(DEFAULT_TRANSCRIPT_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (open) setProgress(null);
+  }, [open]);
+
+  const update = (changes: Partial<TranscriptOptions>) => setOptions({ ...options, ...changes });
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: tickets.length });
+    try {
+      const loaded = new Map<string, Transcript>();
+      const failed = await runInBatches(
+        tickets,
+        async (ticket) => {
+          loaded.set(ticket._id, await loadTranscript(ticket, options));
+        },
+        (done, total) => setProgress({ done, total })
+      );
+      // Keep the queue's order; batches finish in any order
+      const transcripts = tickets.map((ticket) => loaded.get(ticket._id)).filter(Boolean);
+
+      if (transcripts.length === 0) {
+        toast({ variant: "destructive", title: "Export failed", description: "Could not load the conversations." });
+        return;
+      }
+
+      if (options.format === "csv") {
+        downloadFile(buildTranscriptCsv(transcripts, options), transcriptFilename(transcripts, "csv"), "text/csv;charset=utf-8");
+      } else {
+        const images = options.includeImages ? await loadTranscriptImages(transcripts) : new Map<string, string>();
+        const html = buildTranscriptHtml(transcripts, options, images);
+        if (options.format === "pdf") printHtml(html);
+        else downloadFile(html, transcriptFilename(transcripts, "html"), "text/html;charset=utf-8");
+      }
+
+      if (failed.length > 0) {
+        toast({
+          variant: "destructive",
+          title: `${failed.length} conversation${failed.length === 1 ? "" : "s"} left out`,
+          description: "They could not be loaded. Try exporting them again.",
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error("[transcript] Export failed:", error);
+      toast({ variant: "destructive", title: "Export failed", description: "Could not build the transcript." });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export transcript</DialogTitle>
+          <DialogDescription>
+            {tickets.length === 1 ? "This conversation" : `${tickets.length} conversations`}, for disputes and records.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={options.format}
+            onValueChange={(value) => update({ format: value as TranscriptFormat })}
+            className="grid grid-cols-3 gap-2"
+          >
+            {TRANSCRIPT_FORMATS.map((format) => (
+              <Label
+                key={format.value}
+                htmlFor={`transcript-format-${format.value}`}
+                className="flex items-center gap-2 rounded-md border border-border p-2 cursor-pointer"
+                title={format.hint}
+              >
+                <RadioGroupItem value={format.value} id={`transcript-format-${format.value}`} />
+                {format.label}
+              </Label>
+            ))}
+          </RadioGroup>
+          <p className="text-xs text-muted-foreground -mt-2">
+            {TRANSCRIPT_FORMATS.find((f) => f.value === options.format)?.hint}
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="transcript-from" className="text-xs">
+                From
+              </Label>
+              <Input
+                id="transcript-from"
+                type="date"
+                value={options.from}
+                max={options.to || undefined}
+                onChange={(e) => update({ from: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transcript-to" className="text-xs">
+                To
+              </Label>
+              <Input
+                id="transcript-to"
+                type="date"
+                value={options.to}
+                min={options.from || undefined}
+                onChange={(e) => update({ to: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Include</Label>
+            {options.format !== "csv" && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="transcript-images"
+                  checked={options.includeImages}
+                  onCheckedChange={(checked) => update({ includeImages: checked === true })}
+                />
+                <Label htmlFor="transcript-images" className="font-normal cursor-pointer">
+                  Images
+                </Label>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="transcript-notes"
+                checked={options.includeNotes}
+                onCheckedChange={(checked) => update({ includeNotes: checked === true })}
+              />
+              <Label htmlFor="transcript-notes" className="font-normal cursor-pointer">
+                Internal notes
+              </Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Redact</Label>
+            {REDACTION_OPTIONS.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`transcript-redact-${key}`}
+                  checked={options.redaction[key]}
+                  onCheckedChange={(checked) =>
+                    update({ redaction: { ...options.redaction, [key]: checked === true } })
+                  }
+                />
+                <Label htmlFor={`transcript-redact-${key}`} className="font-normal cursor-pointer">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || tickets.length === 0}>
+            {isExporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                {progress.total > 1 ? `${progress.done}/${progress.total}` : "Preparing…"}
+              </>
+            ) : (
+              "Export"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Wraps every case-insensitive occurrence of the query's words in <mark>
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        // split() with a capture group puts matches at odd indexes
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
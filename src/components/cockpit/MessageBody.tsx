@@ -0,0 +1,270 @@
+import { MapPin, UserRound, Phone, Mail, MousePointerClick, List, ShoppingCart, ShoppingBag, Mic, Reply, HelpCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ButtonPayload,
+  ContactPayload,
+  describeMessage,
+  FILE_MESSAGE_TYPES,
+  getPayload,
+  InteractivePayload,
+  LocationPayload,
+  mapsUrl,
+  MediaPayload,
+  OrderPayload,
+} from "@/lib/whatsappMessages";
+import { MessageMedia } from "./MessageMedia";
+import type { Message } from "@/lib/apiClient";
+
+// Types the bubble already knows how to show without a payload
+const PLAIN_TYPES = ["text", "image", "reaction"];
+
+function Chip({ icon: Icon, children }: { icon: typeof Reply; children: React.ReactNode }) {
+  return (
+    <div className="inline-flex items-center gap-1.5 rounded-md border border-black/10 dark:border-white/20 bg-background/50 px-2 py-1 text-xs font-medium">
+      <Icon className="h-3.5 w-3.5 shrink-0 opacity-70" />
+      <span>{children}</span>
+    </div>
+  );
+}
+
+function LocationCard({ location }: { location: LocationPayload }) {
+  return (
+    <a
+      href={mapsUrl(location)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-start gap-2 rounded-md border border-border bg-background/60 p-2 text-xs hover:bg-background"
+    >
+      <MapPin className="h-5 w-5 shrink-0 text-red-500" />
+      <div className="min-w-0">
+        <div className="font-medium">{location.name || "Shared location"}</div>
+        {location.address && <div className="text-muted-foreground">{location.address}</div>}
+        <div className="font-mono text-[10px] text-muted-foreground">
+          {Number(location.latitude).toFixed(5)}, {Number(location.longitude).toFixed(5)}
+        </div>
+        <div className="text-emerald-700 dark:text-emerald-400 mt-0.5">Open in Maps</div>
+      </div>
+    </a>
+  );
+}
+
+function ContactCards({ contacts }: { contacts: ContactPayload[] }) {
+  return (
+    <div className="space-y-2">
+      {contacts.map((contact, idx) => {
+        const name =
+          contact.name?.formatted_name ||
+          [contact.name?.first_name, contact.name?.last_name].filter(Boolean).join(" ") ||
+          "Contact";
+        return (
+          <div key={idx} className="rounded-md border border-border bg-background/60 p-2 text-xs space-y-1">
+            <div className="flex items-center gap-1.5 font-medium">
+              <UserRound className="h-4 w-4 text-muted-foreground" />
+              {name}
+            </div>
+            {contact.org?.company && (
+              <div className="text-muted-foreground">
+                {[contact.org.title, contact.org.company].filter(Boolean).join(", ")}
+              </div>
+            )}
+            {contact.phones?.map((phone, i) => (
+              <a key={i} href={`tel:${phone.phone}`} className="flex items-center gap-1.5 hover:underline">
+                <Phone className="h-3 w-3 text-muted-foreground" />
+                <span className="font-mono">{phone.phone}</span>
+                {phone.type && <span className="text-muted-foreground">({phone.type.toLowerCase()})</span>}
+              </a>
+            ))}
+            {contact.emails?.map((email, i) => (
+              <a key={i} href={`mailto:${email.email}`} className="flex items-center gap-1.5 hover:underline">
+                <Mail className="h-3 w-3 text-muted-foreground" />
+                {email.email}
+              </a>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function InteractiveContent({ interactive }: { interactive: InteractivePayload }) {
+  // Customer tapped one of our buttons or picked a list row
+  if (interactive.button_reply) {
+    return <Chip icon={MousePointerClick}>{interactive.button_reply.title}</Chip>;
+  }
+  if (interactive.list_reply) {
+    return (
+      <div className="space-y-0.5">
+        <Chip icon={List}>{interactive.list_reply.title}</Chip>
+        {interactive.list_reply.description && (
+          <div className="text-xs opacity-70">{interactive.list_reply.description}</div>
+        )}
+      </div>
+    );
+  }
+
+  // Menus the bot sent
+  const { header, body, footer, action } = interactive;
+  const buttons = action?.buttons?.map((b) => b.reply?.title).filter(Boolean) ?? [];
+  const rows = action?.sections?.flatMap((section) => section.rows ?? []) ?? [];
+  const productCount =
+    (action?.product_retailer_id ? 1 : 0) +
+    (action?.sections?.reduce((sum, section) => sum + (section.product_items?.length ?? 0), 0) ?? 0);
+
+  return (
+    <div className="space-y-1.5">
+      {header?.text && <div className="font-semibold">{header.text}</div>}
+      {body?.text && <p className="whitespace-pre-wrap break-words">{body.text}</p>}
+      {footer?.text && <div className="text-xs opacity-60">{footer.text}</div>}
+      {buttons.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {buttons.map((title, idx) => (
+            <span key={idx} className="rounded-full border border-black/20 dark:border-white/30 px-2 py-0.5 text-xs">
+              {title}
+            </span>
+          ))}
+        </div>
+      )}
+      {rows.length > 0 && (
+        <div className="rounded-md border border-black/10 dark:border-white/20 text-xs">
+          {action?.button && (
+            <div className="flex items-center gap-1 px-2 py-1 border-b border-black/10 dark:border-white/20 font-medium">
+              <List className="h-3 w-3" />
+              {action.button}
+            </div>
+          )}
+          {rows.map((row) => (
+            <div key={row.id} className="px-2 py-1">
+              <div>{row.title}</div>
+              {row.description && <div className="opacity-60">{row.description}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+      {productCount > 0 && (
+        <Chip icon={ShoppingBag}>
+          {productCount === 1 ? "Product from catalog" : `${productCount} products from catalog`}
+        </Chip>
+      )}
+    </div>
+  );
+}
+
+function OrderCard({ order }: { order: OrderPayload }) {
+  const items = order.product_items ?? [];
+  const currency = items.find((item) => item.currency)?.currency;
+  const total = items.reduce((sum, item) => sum + (item.item_price ?? 0) * item.quantity, 0);
+  const format = (amount: number) =>
+    currency ? amount.toLocaleString("en-IN", { style: "currency", currency }) : amount.toLocaleString("en-IN");
+
+  return (
+    <div className="rounded-md border border-border bg-background/60 p-2 text-xs space-y-1 min-w-[200px]">
+      <div className="flex items-center gap-1.5 font-medium">
+        <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+        Cart order · {items.length} item{items.length === 1 ? "" : "s"}
+      </div>
+      {items.map((item, idx) => (
+        <div key={idx} className="flex justify-between gap-3">
+          <span className="font-mono truncate">
+            {item.product_retailer_id} × {item.quantity}
+          </span>
+          {item.item_price != null && <span>{format(item.item_price * item.quantity)}</span>}
+        </div>
+      ))}
+      {total > 0 && (
+        <div className="flex justify-between border-t border-border pt-1 font-medium">
+          <span>Total</span>
+          <span>{format(total)}</span>
+        </div>
+      )}
+      {order.text && <p className="text-muted-foreground whitespace-pre-wrap">{order.text}</p>}
+    </div>
+  );
+}
+
+interface MessageBodyProps {
+  message: Message;
+  // Set when the message has no text or media of its own
+  isEmpty?: boolean;
+}
+
+/** Content for non-text WhatsApp message types; images and plain text stay in ChatMessages. */
+export function MessageBody({ message, isEmpty }: MessageBodyProps) {
+  const type = message.message_type;
+  if (!type || type === "text" || type === "image") return null;
+
+  if (FILE_MESSAGE_TYPES.includes(type)) {
+    const media = getPayload<MediaPayload>(message, type);
+    const mediaId = message.media_id || media?.id;
+    if (!mediaId) return null;
+    return (
+      <div className="mb-2">
+        {type === "audio" && media?.voice && (
+          <div className="flex items-center gap-1 text-[10px] opacity-70 mb-1">
+            <Mic className="h-3 w-3" />
+            Voice note
+          </div>
+        )}
+        <MessageMedia
+          mediaId={mediaId}
+          type={type as "audio" | "video" | "document" | "sticker"}
+          filename={message.filename || media?.filename}
+        />
+      </div>
+    );
+  }
+
+  const payload = getPayload<unknown>(message, type);
+
+  if (type === "location" && payload) return <LocationCard location={payload as LocationPayload} />;
+  if (type === "contacts" && payload) return <ContactCards contacts={payload as ContactPayload[]} />;
+  if (type === "interactive" && payload) return <InteractiveContent interactive={payload as InteractivePayload} />;
+  if (type === "button" && payload) return <Chip icon={MousePointerClick}>{(payload as ButtonPayload).text}</Chip>;
+  if (type === "order" && payload) return <OrderCard order={payload as OrderPayload} />;
+
+  // Anything WhatsApp adds later (or a payload the backend dropped) still gets a visible bubble
+  if (isEmpty && !PLAIN_TYPES.includes(type)) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs italic opacity-70">
+        <HelpCircle className="h-3.5 w-3.5" />
+        Unsupported message ({type.replace(/_/g, " ")})
+      </div>
+    );
+  }
+  return null;
+}
+
+interface QuotedMessageProps {
+  // The message being replied to, if it is in the loaded thread
+  quoted: Message | null;
+  onJump?: () => void;
+  className?: string;
+}
+
+export function QuotedMessage({ quoted, onJump, className }: QuotedMessageProps) {
+  const author = !quoted ? null : quoted.sender === "user" ? "Customer" : quoted.sender === "agent" ? "Agent" : "Bot";
+  return (
+    <button
+      type="button"
+      onClick={onJump}
+      disabled={!quoted}
+      className={cn(
+        "mb-1.5 block w-full text-left rounded border-l-4 border-emerald-500 bg-black/5 dark:bg-white/5 px-2 py-1 text-xs",
+        quoted && "hover:bg-black/10 dark:hover:bg-white/10",
+        className
+      )}
+    >
+      {quoted ? (
+        <>
+          <div className="font-medium text-emerald-700 dark:text-emerald-400">{author}</div>
+          <div className="line-clamp-2 opacity-80">{describeMessage(quoted)}</div>
+        </>
+      ) : (
+        <div className="flex items-center gap-1 opacity-70">
+          <Reply className="h-3 w-3" />
+          Replying to an earlier message
+        </div>
+      )}
+    </button>
+  );
+}
@@ -1,9 +1,34 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Loader2, Bot, Pause, Sparkles } from "lucide-react";
+import { Send, Loader2, Bot, Pause, Sparkles, Paperclip, Mic, Square, X, StickyNote, MessageSquare } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { toast } from "@/hooks/use-toast";
+import { isVoiceRecordingSupported, useVoiceRecorder } from "@/hooks/use-voice-recorder";
+import { Agent, AiSuggestion, SavedReply, SuggestionOutcome } from "@/lib/apiClient";
+import { extractPlaceholders, fillPlaceholders } from "@/lib/placeholders";
+import { extractMentions, getMentionQuery } from "@/lib/mentions";
+import { getSentOutcome } from "@/lib/suggestions";
+import { ACCEPTED_MIME_TYPES, getMediaType, supportsCaption, validateAttachment } from "@/lib/attachments";
+import { AttachmentTray, PendingAttachment } from "./AttachmentTray";
+import { TemplateComposer } from "./TemplateComposer";
+import { SuggestedReply } from "./SuggestedReply";
+
+const MAX_REPLY_SUGGESTIONS = 8;
+const MAX_ATTACHMENTS = 10;
+const MAX_MENTION_SUGGESTIONS = 6;
+
+export interface SendAttachmentOptions {
+  caption: string;
+  voice?: boolean;
+  onProgress: (fraction: number) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
 
 interface MessageInputProps {
   onSend: (message: string) => void;
@@ -12,6 +37,29 @@ interface MessageInputProps {
   aiEnabled?: boolean;
   aiPausedBy?: string | null;
   hasAgentSent?: boolean;
+  savedReplies?: SavedReply[];
+  // Substituted into {{Variable}} placeholders when a saved reply is inserted
+  placeholderValues?: Record<string, string>;
+  // Uploads and sends one file; rejects if the upload fails. Attachments are hidden without it
+  onSendAttachment?: (file: File, options: SendAttachmentOptions) => Promise<void>;
+  // Saves an internal note; rejects if it could not be saved. Note mode is hidden without it
+  onSendNote?: (text: string, mentions: string[]) => Promise<void>;
+  // Teammates that can be @mentioned in notes
+  agents?: Agent[];
+  // Reports keystrokes in reply mode so other agents see this one typing
+  onTyping?: () => void;
+  // Other agents composing a reply here right now; sending asks for confirmation
+  typingAgents?: string[];
+  // Past the 24h customer-service window: replies switch to the template picker
+  isWindowClosed?: boolean;
+  onSendTemplate?: (templateName: string, params: Record<string, unknown>) => Promise<void>;
+  // AI suggest mode: while the bot is paused its proposed reply is offered as a draft
+  suggestMode?: boolean;
+  onSuggestModeChange?: (enabled: boolean) => void;
+  suggestion?: AiSuggestion | null;
+  isSuggestionLoading?: boolean;
+  onRegenerateSuggestion?: () => void;
+  onSuggestionOutcome?: (suggestion: AiSuggestion, outcome: SuggestionOutcome, finalText?: string) => void;
 }
 
 export function MessageInput({ 
@@ -21,10 +69,104 @@ export function MessageInput({
   aiEnabled,
   aiPausedBy,
   hasAgentSent,
+  savedReplies = [],
+  placeholderValues = {},
+  onSendAttachment,
+  onSendNote,
+  agents = [],
+  onTyping,
+  typingAgents = [],
+  isWindowClosed,
+  onSendTemplate,
+  suggestMode,
+  onSuggestModeChange,
+  suggestion,
+  isSuggestionLoading,
+  onRegenerateSuggestion,
+  onSuggestionOutcome,
 }: MessageInputProps) {
   const [message, setMessage] = useState("");
+  const [mode, setMode] = useState<"reply" | "note">("reply");
+  const [caret, setCaret] = useState(0);
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [activeMentionIndex, setActiveMentionIndex] = useState(0);
+  const [isMentionMenuDismissed, setIsMentionMenuDismissed] = useState(false);
+  // Set after a send was held back because someone else is replying
+  const [isCollisionPending, setIsCollisionPending] = useState(false);
+  // The suggestion already sent, loaded into the draft or discarded; hides the panel
+  const [handledSuggestionId, setHandledSuggestionId] = useState<string | null>(null);
+  // Set while the draft came from a suggestion, to report accepted vs edited on send
+  const [draftSuggestion, setDraftSuggestion] = useState<AiSuggestion | null>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorder = useVoiceRecorder();
+  const [activeReplyIndex, setActiveReplyIndex] = useState(0);
+  const [isReplyMenuDismissed, setIsReplyMenuDismissed] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const isMobile = useIsMobile();
+  const isNoteMode = mode === "note";
+  const isTemplateMode = !isNoteMode && !!isWindowClosed && !!onSendTemplate;
+  const canAttach = !!onSendAttachment && !isNoteMode && !isTemplateMode;
+
+  // Slash command: a message that is just "/query" opens the saved replies menu
+  const slashQuery = isNoteMode ? null : message.match(/^\/(\S*)$/)?.[1].toLowerCase() ?? null;
+  const replySuggestions =
+    slashQuery === null
+      ? []
+      : savedReplies
+          .filter(
+            (r) => r.shortcut.toLowerCase().startsWith(slashQuery) || r.title.toLowerCase().includes(slashQuery)
+          )
+          .slice(0, MAX_REPLY_SUGGESTIONS);
+  const isReplyMenuOpen = replySuggestions.length > 0 && !isReplyMenuDismissed;
+
+  // "@partial" before the caret in a note opens the teammate menu
+  const mentionQuery = isNoteMode ? getMentionQuery(message, caret) : null;
+  const mentionSuggestions = mentionQuery
+    ? agents
+        .filter((agent) => agent.username.toLowerCase().includes(mentionQuery.query))
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+  const isMentionMenuOpen = mentionSuggestions.length > 0 && !isMentionMenuDismissed;
+
+  // Placeholders the backend had no value for; the agent must replace them by hand
+  const unfilledPlaceholders = extractPlaceholders(message);
+
+  useEffect(() => {
+    setActiveReplyIndex(0);
+    setIsReplyMenuDismissed(false);
+  }, [slashQuery]);
+
+  // Nothing to confirm once the other agent stops typing
+  useEffect(() => {
+    if (typingAgents.length === 0) setIsCollisionPending(false);
+  }, [typingAgents.length]);
+
+  useEffect(() => {
+    setActiveMentionIndex(0);
+    setIsMentionMenuDismissed(false);
+  }, [mentionQuery?.query]);
+
+  const insertSavedReply = (reply: SavedReply) => {
+    setMessage(fillPlaceholders(reply.body, placeholderValues));
+    textareaRef.current?.focus();
+  };
+
+  const insertMention = (agent: Agent) => {
+    if (!mentionQuery) return;
+    const handle = `@${agent.username} `;
+    const next = message.slice(0, mentionQuery.start) + handle + message.slice(caret);
+    const position = mentionQuery.start + handle.length;
+    setMessage(next);
+    setCaret(position);
+    // Move the caret after the inserted handle once the new value is rendered
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
 
   // Auto-resize logic for textarea
   useEffect(() => {
@@ -35,10 +177,54 @@ export function MessageInput({
     }
   }, [message]);
 
-  const handleSend = () => {
-    const trimmed = message.trim();
-    if (!trimmed || isSending || disabled) return;
-    onSend(trimmed);
+  // Preview URLs belong to this component; release them when it goes away
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  useEffect(
+    () => () => attachmentsRef.current.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl)),
+    []
+  );
+
+  const updateAttachment = (id: string, changes: Partial<PendingAttachment>) =>
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+
+  const removeAttachment = (id: string) =>
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+
+  const addFiles = (files: File[], voice = false) => {
+    if (!onSendAttachment) return;
+    const accepted: PendingAttachment[] = [];
+    for (const file of files) {
+      // Recordings are ours: the backend converts them to a WhatsApp voice format
+      const error = voice ? null : validateAttachment(file);
+      if (error) {
+        toast({ variant: "destructive", title: "Can't attach file", description: error });
+        continue;
+      }
+      const type = voice ? "audio" : getMediaType(file.type);
+      accepted.push({
+        id: crypto.randomUUID(),
+        file,
+        type,
+        voice,
+        previewUrl: type === "document" ? undefined : URL.createObjectURL(file),
+      });
+    }
+    setAttachments((prev) => {
+      const room = MAX_ATTACHMENTS - prev.length;
+      if (accepted.length > room) {
+        toast({ variant: "destructive", title: "Too many files", description: `Up to ${MAX_ATTACHMENTS} attachments per message` });
+        accepted.slice(room).forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      }
+      return [...prev, ...accepted.slice(0, Math.max(room, 0))];
+    });
+  };
+
+  const resetTextarea = () => {
     setMessage(""); // Clear input
     // Reset height
     if (textareaRef.current) {
@@ -46,7 +232,171 @@ export function MessageInput({
     }
   };
 
+  // Each file goes out as its own WhatsApp message; the text rides along as the
+  // caption of the first file that can carry one, or follows as a text message
+  const sendAttachments = async (text: string) => {
+    setIsUploading(true);
+    let caption = text;
+    for (const attachment of attachments) {
+      const captionForFile = supportsCaption(attachment.type) ? caption : "";
+      updateAttachment(attachment.id, { progress: 0, error: undefined });
+      try {
+        await onSendAttachment(attachment.file, {
+          caption: captionForFile,
+          voice: attachment.voice,
+          onProgress: (progress) => updateAttachment(attachment.id, { progress }),
+        });
+        if (captionForFile) caption = "";
+        removeAttachment(attachment.id);
+      } catch (error) {
+        updateAttachment(attachment.id, {
+          progress: undefined,
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+        setMessage(caption);
+        setIsUploading(false);
+        return;
+      }
+    }
+    if (caption) onSend(caption);
+    resetTextarea();
+    setIsUploading(false);
+  };
+
+  const sendNote = async (text: string) => {
+    setIsSavingNote(true);
+    try {
+      await onSendNote(text, extractMentions(text, agents));
+      resetTextarea();
+    } catch {
+      // The caller reports the error; keep the draft so nothing is lost
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const handleSend = (force = false) => {
+    const trimmed = message.trim();
+    if (isSending || isUploading || isSavingNote || disabled) return;
+    if (isNoteMode) {
+      if (trimmed) void sendNote(trimmed);
+      return;
+    }
+    // Literal {{order_number}} must never reach the customer
+    if (unfilledPlaceholders.length > 0) {
+      textareaRef.current?.focus();
+      return;
+    }
+    // Two agents answering at once sends the customer contradicting replies
+    if (typingAgents.length > 0 && !force && !isCollisionPending) {
+      setIsCollisionPending(true);
+      return;
+    }
+    setIsCollisionPending(false);
+    if (attachments.length > 0) {
+      void sendAttachments(trimmed);
+      return;
+    }
+    if (!trimmed) return;
+    onSend(trimmed);
+    if (draftSuggestion) {
+      onSuggestionOutcome?.(draftSuggestion, getSentOutcome(draftSuggestion, trimmed), trimmed);
+      setDraftSuggestion(null);
+    }
+    resetTextarea();
+  };
+
+  const editSuggestion = (s: AiSuggestion) => {
+    setHandledSuggestionId(s.id);
+    setDraftSuggestion(s);
+    setMessage(s.text);
+    textareaRef.current?.focus();
+  };
+
+  const acceptSuggestion = (s: AiSuggestion) => {
+    // Someone else is replying: load it as a draft so the collision prompt still applies
+    if (typingAgents.length > 0) {
+      editSuggestion(s);
+      setIsCollisionPending(true);
+      return;
+    }
+    setHandledSuggestionId(s.id);
+    onSend(s.text);
+    onSuggestionOutcome?.(s, "accepted", s.text);
+  };
+
+  const discardSuggestion = (s: AiSuggestion) => {
+    setHandledSuggestionId(s.id);
+    onSuggestionOutcome?.(s, "discarded");
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || !canAttach) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAttach || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canAttach) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleStartRecording = async () => {
+    try {
+      await recorder.start((file) => addFiles([file], true));
+    } catch {
+      toast({ variant: "destructive", title: "Microphone unavailable", description: "Allow microphone access to record voice notes" });
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isMentionMenuOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveMentionIndex((i) => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(mentionSuggestions[activeMentionIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setIsMentionMenuDismissed(true);
+        return;
+      }
+    }
+
+    if (isReplyMenuOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveReplyIndex((i) => (i + step + replySuggestions.length) % replySuggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertSavedReply(replySuggestions[activeReplyIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setIsReplyMenuDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault(); // Prevent newline
       handleSend();
@@ -56,12 +406,31 @@ export function MessageInput({
   // Determine AI status display
   const isAiActive = aiEnabled === true && aiPausedBy === null && !hasAgentSent;
   const showAiPaused = aiPausedBy !== null || hasAgentSent;
+  const hasContent = !!message.trim() || (!isNoteMode && attachments.length > 0);
+  const canSend = hasContent && (isNoteMode || unfilledPlaceholders.length === 0);
+  const isBusy = isSending || isUploading || isSavingNote;
+  const showSuggestion =
+    !!suggestMode &&
+    showAiPaused &&
+    !isNoteMode &&
+    !isTemplateMode &&
+    (suggestion ? suggestion.id !== handledSuggestionId : !!isSuggestionLoading);
 
   return (
-    <div className={cn(
-      "p-3 border-t border-border bg-white dark:bg-zinc-900",
-      isMobile && "sticky bottom-0 z-10"
-    )}>
+    <div
+      className={cn(
+        "relative p-3 border-t border-border bg-white dark:bg-zinc-900",
+        isMobile && "sticky bottom-0 z-10"
+      )}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-1 z-30 rounded-xl border-2 border-dashed border-emerald-500 bg-emerald-50/90 dark:bg-emerald-900/40 flex items-center justify-center text-sm font-medium text-emerald-700 dark:text-emerald-300 pointer-events-none">
+          Drop files to attach
+        </div>
+      )}
       {/* AI Status Indicator */}
       <div className="mb-2 px-1 flex items-center justify-between">
         {isAiActive ? (
@@ -73,39 +442,257 @@ export function MessageInput({
           <div className="flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded-md">
             <Pause className="h-3 w-3" />
             <span>AI Paused</span>
+            {onSuggestModeChange && (
+              <button
+                type="button"
+                onClick={() => onSuggestModeChange(!suggestMode)}
+                title={suggestMode ? "Stop showing the bot's suggested replies" : "Show the bot's reply as a draft you can edit"}
+                className={cn(
+                  "ml-1 flex items-center gap-1 rounded px-1.5 py-0.5 border",
+                  suggestMode
+                    ? "border-violet-300 bg-violet-100 text-violet-700 dark:border-violet-700 dark:bg-violet-900/40 dark:text-violet-300"
+                    : "border-transparent text-muted-foreground hover:text-foreground"
+                )}
+              >
+                <Sparkles className="h-3 w-3" />
+                Suggest
+              </button>
+            )}
           </div>
         ) : <div />}
+        {onSendNote && (
+          <div className="flex items-center rounded-md bg-muted p-0.5 text-xs">
+            <button
+              type="button"
+              onClick={() => setMode("reply")}
+              className={cn(
+                "flex items-center gap-1 rounded px-2 py-0.5",
+                !isNoteMode ? "bg-background shadow-sm font-medium" : "text-muted-foreground"
+              )}
+            >
+              <MessageSquare className="h-3 w-3" />
+              Reply
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode("note")}
+              disabled={attachments.length > 0 || recorder.isRecording}
+              title={attachments.length > 0 ? "Notes can't carry attachments" : "Only visible to your team"}
+              className={cn(
+                "flex items-center gap-1 rounded px-2 py-0.5 disabled:opacity-50",
+                isNoteMode ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 shadow-sm font-medium" : "text-muted-foreground"
+              )}
+            >
+              <StickyNote className="h-3 w-3" />
+              Note
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="flex gap-2 items-end">
-        <Textarea
-          ref={textareaRef}
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="Type a message... (Enter to send)"
-          className="min-h-[44px] max-h-[120px] resize-none py-3 px-4 rounded-xl bg-zinc-50 dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 focus-visible:ring-1 focus-visible:ring-emerald-500"
-          disabled={disabled || isSending}
-          rows={1}
+      {showSuggestion && (
+        <SuggestedReply
+          suggestion={suggestion}
+          isLoading={!!isSuggestionLoading}
+          onAccept={() => acceptSuggestion(suggestion)}
+          onEdit={() => editSuggestion(suggestion)}
+          onDiscard={() => discardSuggestion(suggestion)}
+          onRegenerate={onRegenerateSuggestion}
+          disabled={disabled || isBusy}
         />
-        <Button
-          onClick={handleSend}
-          disabled={disabled || isSending || !message.trim()}
-          size="icon"
+      )}
+
+      {canAttach && (
+        <AttachmentTray attachments={attachments} onRemove={removeAttachment} disabled={isUploading} />
+      )}
+
+      {isTemplateMode ? (
+        <TemplateComposer onSend={onSendTemplate} disabled={disabled} />
+      ) : (
+        <div className="relative flex gap-2 items-end">
+          {isMentionMenuOpen && (
+            <div className="absolute bottom-full left-0 right-14 mb-2 z-20 rounded-lg border border-border bg-popover shadow-lg overflow-hidden">
+              <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-muted-foreground border-b border-border">
+                Mention a teammate
+              </div>
+              {mentionSuggestions.map((agent, index) => (
+                <button
+                  key={agent.user_id}
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()} // Keep textarea focus
+                  onMouseEnter={() => setActiveMentionIndex(index)}
+                  onClick={() => insertMention(agent)}
+                  className={cn(
+                    "w-full text-left px-3 py-2 text-sm",
+                    index === activeMentionIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                  )}
+                >
+                  @{agent.username}
+                </button>
+              ))}
+            </div>
+          )}
+          {isReplyMenuOpen && (
+            <div className="absolute bottom-full left-0 right-14 mb-2 z-20 rounded-lg border border-border bg-popover shadow-lg overflow-hidden">
+              <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-muted-foreground border-b border-border">
+                Saved replies
+              </div>
+              {replySuggestions.map((reply, index) => (
+                <button
+                  key={reply.id}
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()} // Keep textarea focus
+                  onMouseEnter={() => setActiveReplyIndex(index)}
+                  onClick={() => insertSavedReply(reply)}
+                  className={cn(
+                    "w-full text-left px-3 py-2 text-sm",
+                    index === activeReplyIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs text-emerald-600">/{reply.shortcut}</span>
+                    <span className="font-medium truncate">{reply.title}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{reply.body}</p>
+                </button>
+              ))}
+            </div>
+          )}
+          {canAttach && !recorder.isRecording && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_MIME_TYPES}
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-11 w-9 shrink-0 text-muted-foreground"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isBusy}
+                title="Attach images or documents"
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+            </>
+          )}
+          {recorder.isRecording ? (
+            <div className="flex-1 h-11 flex items-center gap-3 px-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm">
+              <span className="h-2.5 w-2.5 rounded-full bg-red-500 animate-pulse" />
+              <span className="font-mono text-red-700 dark:text-red-300">{formatElapsed(recorder.elapsedMs)}</span>
+              <span className="flex-1 text-xs text-muted-foreground">Recording voice note…</span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={recorder.cancel} title="Discard">
+                <X className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={recorder.stop} title="Stop recording">
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            </div>
+          ) : (
+            <Textarea
+              ref={textareaRef}
+              value={message}
+              onChange={(e) => {
+                setMessage(e.target.value);
+                setCaret(e.target.selectionStart);
+                if (!isNoteMode && e.target.value) onTyping?.();
+                if (!e.target.value) setDraftSuggestion(null);
+              }}
+              onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder={
+                isNoteMode
+                  ? "Write an internal note... (@ to mention a teammate)"
+                  : attachments.length > 0
+                    ? "Add a caption... (Enter to send)"
+                    : "Type a message... (Enter to send, / for saved replies)"
+              }
+              className={cn(
+                "min-h-[44px] max-h-[120px] resize-none py-3 px-4 rounded-xl focus-visible:ring-1",
+                isNoteMode
+                  ? "bg-amber-50 dark:bg-amber-950/40 border-amber-200 dark:border-amber-800 focus-visible:ring-amber-500"
+                  : "bg-zinc-50 dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 focus-visible:ring-emerald-500"
+              )}
+              disabled={disabled || isBusy}
+              rows={1}
+            />
+          )}
+          {canAttach && !hasContent && !recorder.isRecording && isVoiceRecordingSupported() && (
+            <Button
+              onClick={handleStartRecording}
+              disabled={disabled || isBusy}
+              size="icon"
+              variant="ghost"
+              className="h-11 w-11 shrink-0 rounded-xl text-muted-foreground"
+              title="Record a voice note"
+            >
+              <Mic className="h-5 w-5" />
+            </Button>
+          )}
+          <Button
+            onClick={() => handleSend()}
+            disabled={disabled || isBusy || !canSend || recorder.isRecording}
+            size="icon"
+            className={cn(
+              "h-11 w-11 shrink-0 rounded-xl transition-all",
+              !canSend
+                ? "bg-zinc-200 dark:bg-zinc-800 text-zinc-400"
+                : isNoteMode
+                  ? "bg-amber-500 hover:bg-amber-600 text-white"
+                  : "bg-emerald-600 hover:bg-emerald-700 text-white"
+            )}
+          >
+            {isBusy ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <Send className="h-5 w-5 ml-0.5" /> // Slight visual center fix
+            )}
+          </Button>
+        </div>
+      )}
+      {!isNoteMode && !isTemplateMode && typingAgents.length > 0 && (
+        <div
           className={cn(
-            "h-11 w-11 shrink-0 rounded-xl transition-all",
-            message.trim() ? "bg-emerald-600 hover:bg-emerald-700 text-white" : "bg-zinc-200 dark:bg-zinc-800 text-zinc-400"
+            "flex items-center gap-2 text-xs mt-1 px-1",
+            isCollisionPending ? "text-destructive" : "text-amber-600 dark:text-amber-400"
           )}
         >
-          {isSending ? (
-            <Loader2 className="h-5 w-5 animate-spin" />
-          ) : (
-            <Send className="h-5 w-5 ml-0.5" /> // Slight visual center fix
+          <span className="flex-1">
+            {isCollisionPending
+              ? `${typingAgents.join(", ")} ${typingAgents.length === 1 ? "is" : "are"} also replying. Send anyway?`
+              : `${typingAgents.join(", ")} ${typingAgents.length === 1 ? "is" : "are"} typing a reply…`}
+          </span>
+          {isCollisionPending && (
+            <>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsCollisionPending(false)}>
+                Wait
+              </Button>
+              <Button variant="destructive" size="sm" className="h-6 px-2 text-xs" onClick={() => handleSend(true)}>
+                Send anyway
+              </Button>
+            </>
           )}
-        </Button>
-      </div>
+        </div>
+      )}
+      {!isNoteMode && unfilledPlaceholders.length > 0 && (
+        <div className="text-xs text-amber-600 dark:text-amber-400 mt-1 px-1">
+          Fill in {unfilledPlaceholders.map((p) => `{{${p}}}`).join(", ")} before sending
+        </div>
+      )}
       <div className="text-[10px] text-muted-foreground text-center mt-1 opacity-50">
-        Press Enter to send, Shift+Enter for new line
+        {isNoteMode
+          ? "Notes are only visible to your team"
+          : isTemplateMode
+            ? "Switch to Note to leave your team a message"
+            : "Press Enter to send, Shift+Enter for new line"}
       </div>
     </div>
   );
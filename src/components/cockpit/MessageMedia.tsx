@@ -0,0 +1,56 @@
+import { FileText, Download, AlertCircle } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMediaUrl } from "@/hooks/use-media-url";
+import { cn } from "@/lib/utils";
+
+interface MessageMediaProps {
+  mediaId: string;
+  type: "audio" | "video" | "document" | "sticker";
+  filename?: string;
+  className?: string;
+}
+
+// Non-image attachments in the thread; images keep using SecureImage
+export function MessageMedia({ mediaId, type, filename, className }: MessageMediaProps) {
+  const { url, isLoading, hasError } = useMediaUrl(mediaId);
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-10 w-[220px] rounded-md", className)} />;
+  }
+
+  if (hasError || !url) {
+    return (
+      <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+        <AlertCircle className="h-4 w-4" />
+        {type === "document" ? filename || "Document" : "Media"} unavailable
+      </div>
+    );
+  }
+
+  if (type === "sticker") {
+    return <img src={url} alt="Sticker" className={cn("h-32 w-32 object-contain", className)} />;
+  }
+
+  if (type === "audio") {
+    return <audio src={url} controls className={cn("h-10 w-[240px] max-w-full", className)} />;
+  }
+
+  if (type === "video") {
+    return <video src={url} controls className={cn("max-w-[250px] rounded-md", className)} />;
+  }
+
+  return (
+    <a
+      href={url}
+      download={filename || "document"}
+      className={cn(
+        "flex items-center gap-2 rounded-md border border-border bg-background/60 px-3 py-2 text-xs hover:bg-background",
+        className
+      )}
+    >
+      <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+      <span className="truncate max-w-[180px]">{filename || "Document"}</span>
+      <Download className="h-4 w-4 shrink-0 text-muted-foreground" />
+    </a>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Bell, BellOff, Volume2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import {
+  getNotificationPermission,
+  NOTIFICATION_KIND_LABELS,
+  NotificationKind,
+  NotificationPrefs,
+  playChime,
+  requestNotificationPermission,
+} from "@/lib/notifications";
+
+interface NotificationSettingsProps {
+  prefs: NotificationPrefs;
+  onChange: (prefs: NotificationPrefs) => void;
+}
+
+export function NotificationSettings({ prefs, onChange }: NotificationSettingsProps) {
+  const [permission, setPermission] = useState(getNotificationPermission());
+
+  const handleEnable = async (enabled: boolean) => {
+    onChange({ ...prefs, enabled });
+    if (enabled) setPermission(await requestNotificationPermission());
+  };
+
+  const setKind = (kind: NotificationKind, on: boolean) =>
+    onChange({ ...prefs, kinds: { ...prefs.kinds, [kind]: on } });
+
+  const setQuietHours = (changes: Partial<NotificationPrefs["quietHours"]>) =>
+    onChange({ ...prefs, quietHours: { ...prefs.quietHours, ...changes } });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Notifications">
+          {prefs.enabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4 text-muted-foreground" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="notify-enabled" className="text-sm font-medium cursor-pointer">
+            Alerts
+          </Label>
+          <Switch id="notify-enabled" checked={prefs.enabled} onCheckedChange={handleEnable} />
+        </div>
+
+        {prefs.enabled && permission === "denied" && (
+          <p className="text-xs text-destructive">
+            Desktop notifications are blocked for this site. Allow them in the browser settings; sound alerts still work.
+          </p>
+        )}
+        {prefs.enabled && permission === "unsupported" && (
+          <p className="text-xs text-muted-foreground">This browser has no desktop notifications; sound only.</p>
+        )}
+
+        <div className="space-y-2">
+          {(Object.keys(NOTIFICATION_KIND_LABELS) as NotificationKind[]).map((kind) => (
+            <div key={kind} className="flex items-center justify-between">
+              <Label htmlFor={`notify-${kind}`} className="text-xs cursor-pointer">
+                {NOTIFICATION_KIND_LABELS[kind]}
+              </Label>
+              <Switch
+                id={`notify-${kind}`}
+                checked={prefs.kinds[kind]}
+                onCheckedChange={(on) => setKind(kind, on)}
+                disabled={!prefs.enabled}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="notify-sound" className="text-xs cursor-pointer">
+            Play a chime
+          </Label>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Test sound" onClick={playChime}>
+              <Volume2 className="h-3.5 w-3.5" />
+            </Button>
+            <Switch
+              id="notify-sound"
+              checked={prefs.sound}
+              onCheckedChange={(sound) => onChange({ ...prefs, sound })}
+              disabled={!prefs.enabled}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="notify-quiet" className="text-xs cursor-pointer">
+              Quiet hours
+            </Label>
+            <Switch
+              id="notify-quiet"
+              checked={prefs.quietHours.enabled}
+              onCheckedChange={(enabled) => setQuietHours({ enabled })}
+              disabled={!prefs.enabled}
+            />
+          </div>
+          {prefs.quietHours.enabled && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">From</Label>
+                <Input
+                  type="time"
+                  value={prefs.quietHours.start}
+                  onChange={(e) => setQuietHours({ start: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">To</Label>
+                <Input
+                  type="time"
+                  value={prefs.quietHours.end}
+                  onChange={(e) => setQuietHours({ end: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { AiPause, AiPauseReason } from "@/lib/apiClient";
+import { AI_PAUSE_REASONS, AUTO_RESUME_OPTIONS, DEFAULT_AI_PAUSE } from "@/lib/aiHandoff";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface PauseAiDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (pause: AiPause) => void;
+}
+
+// Select values are strings; "never" stands for null
+const toValue = (minutes: number | null) => (minutes === null ? "never" : String(minutes));
+const fromValue = (value: string) => (value === "never" ? null : Number(value));
+
+export function PauseAiDialog({ open, onOpenChange, onConfirm }: PauseAiDialogProps) {
+  const [pause, setPause] = useState<AiPause>(DEFAULT_AI_PAUSE);
+
+  useEffect(() => {
+    if (open) setPause(DEFAULT_AI_PAUSE);
+  }, [open]);
+
+  const handleConfirm = () => {
+    onConfirm(pause);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Pause AI</DialogTitle>
+          <DialogDescription>The bot stops replying in this conversation.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={pause.reason}
+            onValueChange={(reason) => setPause({ ...pause, reason: reason as AiPauseReason })}
+          >
+            {(Object.keys(AI_PAUSE_REASONS) as AiPauseReason[]).map((reason) => (
+              <div key={reason} className="flex items-center gap-2">
+                <RadioGroupItem value={reason} id={`pause-reason-${reason}`} />
+                <Label htmlFor={`pause-reason-${reason}`} className="font-normal cursor-pointer">
+                  {AI_PAUSE_REASONS[reason]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-1">
+            <Label htmlFor="pause-resume" className="text-xs">
+              Resume the AI after agent inactivity of
+            </Label>
+            <Select
+              value={toValue(pause.resume_after_minutes)}
+              onValueChange={(value) => setPause({ ...pause, resume_after_minutes: fromValue(value) })}
+            >
+              <SelectTrigger id="pause-resume">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_RESUME_OPTIONS.map((option) => (
+                  <SelectItem key={toValue(option.minutes)} value={toValue(option.minutes)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Every agent reply restarts the timer.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>Pause AI</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { PresenceEntry } from "@/lib/presence";
+
+// Avatars shown before collapsing into "+n"
+const MAX_VISIBLE_AVATARS = 3;
+
+interface PresenceAvatarsProps {
+  entries: PresenceEntry[];
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const initials = (username: string) =>
+  username
+    .split(/[\s._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("") || "?";
+
+/** Stacked avatars of the other agents in a conversation; typing ones get a badge. */
+export function PresenceAvatars({ entries, size = "md", className }: PresenceAvatarsProps) {
+  if (entries.length === 0) return null;
+
+  const visible = entries.slice(0, MAX_VISIBLE_AVATARS);
+  const summary = entries
+    .map((entry) => `${entry.username} is ${entry.activity === "typing" ? "typing" : "viewing"}`)
+    .join("\n");
+
+  return (
+    <div className={cn("flex items-center -space-x-1.5", className)} title={summary}>
+      {visible.map((entry) => (
+        <div key={entry.user_id} className="relative">
+          <Avatar
+            className={cn(
+              "border-2 border-background",
+              size === "sm" ? "h-5 w-5" : "h-7 w-7",
+              entry.activity === "typing" && "ring-2 ring-amber-500"
+            )}
+          >
+            <AvatarFallback
+              className={cn(
+                "bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200 font-medium",
+                size === "sm" ? "text-[8px]" : "text-[10px]"
+              )}
+            >
+              {initials(entry.username)}
+            </AvatarFallback>
+          </Avatar>
+          {entry.activity === "typing" && size === "md" && (
+            <span className="absolute -bottom-0.5 -right-0.5 flex h-3 w-3 items-center justify-center rounded-full bg-amber-500 animate-pulse">
+              <Pencil className="h-2 w-2 text-white" />
+            </span>
+          )}
+        </div>
+      ))}
+      {entries.length > MAX_VISIBLE_AVATARS && (
+        <span className="pl-2 text-xs text-muted-foreground">+{entries.length - MAX_VISIBLE_AVATARS}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { SlidersHorizontal, Save } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { ConversationFilters } from "@/lib/apiClient";
+import { useAgents } from "@/hooks/use-agents";
+import { useTags } from "@/hooks/use-tags";
+
+interface QueueFiltersProps {
+  filters: ConversationFilters;
+  onChange: (filters: ConversationFilters) => void;
+  onSaveView: (name: string) => void;
+}
+
+// Radix Select can't hold an empty value; "any" stands for "no filter"
+const ANY = "any";
+
+const countActive = (filters: ConversationFilters) =>
+  Object.entries(filters).filter(([key, value]) => key !== "sort" && value !== undefined && value !== "" && value !== false)
+    .length;
+
+export function QueueFilters({ filters, onChange, onSaveView }: QueueFiltersProps) {
+  const [viewName, setViewName] = useState("");
+
+  const { data: agents } = useAgents();
+  const { issueTypes, tags } = useTags();
+
+  const update = (changes: Partial<ConversationFilters>) => onChange({ ...filters, ...changes });
+
+  const handleSave = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    onSaveView(name);
+    setViewName("");
+  };
+
+  const activeCount = countActive(filters);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 relative" title="Filters & sort">
+          <SlidersHorizontal className="h-4 w-4" />
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Status</Label>
+            <Select
+              value={filters.status ?? ANY}
+              onValueChange={(v) => update({ status: v === ANY ? undefined : (v as ConversationFilters["status"]) })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">AI</Label>
+            <Select
+              value={filters.ai_state ?? ANY}
+              onValueChange={(v) => update({ ai_state: v === ANY ? undefined : (v as ConversationFilters["ai_state"]) })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                <SelectItem value="active">Bot active</SelectItem>
+                <SelectItem value="paused">Paused</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Assignee</Label>
+          <Select
+            value={filters.assigned_to ?? ANY}
+            onValueChange={(v) => update({ assigned_to: v === ANY ? undefined : v })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Anyone</SelectItem>
+              <SelectItem value="me">Me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {agents?.map((agent) => (
+                <SelectItem key={agent.user_id} value={agent.user_id}>
+                  {agent.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Issue type</Label>
+            <Select
+              value={filters.issue_type ?? ANY}
+              onValueChange={(v) => update({ issue_type: v === ANY ? undefined : v })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {issueTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.name}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Tag</Label>
+            <Select value={filters.tag ?? ANY} onValueChange={(v) => update({ tag: v === ANY ? undefined : v })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.name}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Active from</Label>
+            <Input
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => update({ from: e.target.value || undefined })}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Active to</Label>
+            <Input
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => update({ to: e.target.value || undefined })}
+              className="h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Waiting over (min)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={filters.waiting_minutes ?? ""}
+              onChange={(e) => update({ waiting_minutes: e.target.value ? Number(e.target.value) : undefined })}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex items-center gap-2 h-8">
+            <Switch
+              id="filter-unread"
+              checked={!!filters.unread}
+              onCheckedChange={(checked) => update({ unread: checked || undefined })}
+            />
+            <Label htmlFor="filter-unread" className="text-xs cursor-pointer">
+              Unread only
+            </Label>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="filter-sla-breached"
+            checked={!!filters.sla_breached}
+            onCheckedChange={(checked) => update({ sla_breached: checked || undefined })}
+          />
+          <Label htmlFor="filter-sla-breached" className="text-xs cursor-pointer">
+            SLA breached only
+          </Label>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Sort</Label>
+          <Select
+            value={filters.sort ?? "newest"}
+            onValueChange={(v) => update({ sort: v as ConversationFilters["sort"] })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest activity first</SelectItem>
+              <SelectItem value="oldest">Oldest waiting first</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="flex gap-2">
+          <Input
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Save as view..."
+            className="h-8 text-xs"
+          />
+          <Button size="sm" className="h-8 shrink-0" onClick={handleSave} disabled={!viewName.trim()}>
+            <Save className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useTags } from "@/hooks/use-tags";
+import { Resolution } from "@/lib/apiClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ResolveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (resolution: Resolution) => void;
+  // Bulk resolve: how many tickets get this disposition
+  count?: number;
+}
+
+export function ResolveDialog({ open, onOpenChange, onConfirm, count = 1 }: ResolveDialogProps) {
+  const { dispositions, isLoading } = useTags();
+  const [disposition, setDisposition] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setDisposition(null);
+      setNote("");
+    }
+  }, [open]);
+
+  // Businesses that haven't set up dispositions can still resolve
+  const needsDisposition = dispositions.length > 0;
+
+  const handleConfirm = () => {
+    onConfirm({ disposition, note: note.trim() || undefined });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{count > 1 ? `Resolve ${count} Tickets` : "Resolve Ticket"}</DialogTitle>
+          <DialogDescription>
+            {count > 1 ? "How did these conversations end?" : "How did this conversation end?"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {needsDisposition ? (
+              <RadioGroup value={disposition ?? ""} onValueChange={setDisposition} className="max-h-64 overflow-y-auto">
+                {dispositions.map((d) => (
+                  <div key={d.id} className="flex items-center gap-2">
+                    <RadioGroupItem value={d.name} id={`disposition-${d.id}`} />
+                    <Label htmlFor={`disposition-${d.id}`} className="font-normal cursor-pointer">
+                      {d.name}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No dispositions are set up for this business.{" "}
+                <Link to="/tags" className="underline">
+                  Add them
+                </Link>{" "}
+                to report on why tickets close.
+              </p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="resolve-note" className="text-xs">
+                Note (optional)
+              </Label>
+              <Textarea
+                id="resolve-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Anything the next agent should know"
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isLoading || (needsDisposition && !disposition)}>
+            Resolve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { formatDistanceToNow } from "date-fns";
+import { SearchX, MessageSquare, Phone, UserRound, Package } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { cn, normalizeUTC } from "@/lib/utils";
+import { ConversationSearchResult, SearchMatchField } from "@/lib/apiClient";
+import { HighlightedText } from "./HighlightedText";
+
+interface SearchResultsProps {
+  query: string;
+  results: ConversationSearchResult[] | undefined;
+  isLoading: boolean;
+  isError: boolean;
+  selectedTicketId: string | null;
+  onSelect: (result: ConversationSearchResult) => void;
+}
+
+const MATCH_ICONS: Record<SearchMatchField, typeof MessageSquare> = {
+  phone: Phone,
+  name: UserRound,
+  order_number: Package,
+  message: MessageSquare,
+};
+
+export function SearchResults({ query, results, isLoading, isError, selectedTicketId, onSelect }: SearchResultsProps) {
+  if (isLoading) {
+    return (
+      <div className="p-3 space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <div className="p-4 text-center text-sm text-destructive">Search failed</div>;
+  }
+
+  if (!results || results.length === 0) {
+    return (
+      <div className="p-6 text-center text-muted-foreground">
+        <SearchX className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No matches for "{query}"</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {results.map((result, idx) => {
+        const Icon = MATCH_ICONS[result.match_field];
+        const when = result.message_at || result.conversation.last_at;
+        return (
+          <button
+            key={`${result.conversation.id}-${result.message_id ?? idx}`}
+            type="button"
+            onClick={() => onSelect(result)}
+            className={cn(
+              "w-full text-left p-3 border-b border-border hover:bg-muted/50 transition-colors",
+              selectedTicketId === result.conversation.id && "bg-accent"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className="font-mono text-sm font-medium truncate">
+                <HighlightedText text={result.conversation.phone} query={query} />
+              </span>
+              {when && (
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {formatDistanceToNow(new Date(normalizeUTC(when)), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            {result.customer_name && (
+              <div className="text-xs text-foreground mb-1 truncate">
+                <HighlightedText text={result.customer_name} query={query} />
+              </div>
+            )}
+            <div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+              <Icon className="h-3 w-3 mt-0.5 shrink-0" />
+              <span className="line-clamp-2">
+                <HighlightedText text={result.snippet} query={query} />
+              </span>
+            </div>
+            {result.conversation.status === "resolved" && (
+              <Badge variant="secondary" className="mt-1 text-[10px] px-1.5 py-0">
+                Resolved
+              </Badge>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
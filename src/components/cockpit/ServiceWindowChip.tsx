@@ -0,0 +1,38 @@
+import { Clock, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatSlaRemaining } from "@/lib/sla";
+import { ServiceWindow, ServiceWindowLevel } from "@/lib/serviceWindow";
+
+interface ServiceWindowChipProps {
+  serviceWindow: ServiceWindow;
+  className?: string;
+}
+
+const LEVEL_CLASS: Record<ServiceWindowLevel, string> = {
+  open: "bg-muted text-muted-foreground",
+  closing: "bg-amber-500/15 text-amber-600 dark:text-amber-400",
+  closed: "bg-destructive/15 text-destructive",
+};
+
+/** Time left to reply free-form before WhatsApp only accepts templates. */
+export function ServiceWindowChip({ serviceWindow, className }: ServiceWindowChipProps) {
+  const isClosed = serviceWindow.level === "closed";
+  const Icon = isClosed ? Lock : Clock;
+  const title = serviceWindow.closesAt
+    ? `${isClosed ? "Closed" : "Closes"} ${serviceWindow.closesAt.toLocaleString()} (24h after the customer's last message)`
+    : "The customer hasn't written in this conversation";
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full px-1.5 py-0 text-[10px] font-medium shrink-0",
+        LEVEL_CLASS[serviceWindow.level],
+        className
+      )}
+      title={title}
+    >
+      <Icon className="h-3 w-3" />
+      {isClosed ? "Window closed" : `${formatSlaRemaining(serviceWindow.remainingMs)} to reply`}
+    </span>
+  );
+}
@@ -0,0 +1,42 @@
+import { Timer, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSlaClock, useSlaConfig } from "@/hooks/use-sla";
+import { formatSlaRemaining, getSlaState, SLA_KIND_LABELS, SlaDeadlines, SlaLevel } from "@/lib/sla";
+
+interface SlaChipProps {
+  deadlines: SlaDeadlines;
+  className?: string;
+}
+
+const LEVEL_CLASS: Record<SlaLevel, string> = {
+  ok: "bg-muted text-muted-foreground",
+  warning: "bg-amber-500/15 text-amber-600 dark:text-amber-400",
+  critical: "bg-orange-500/20 text-orange-600 dark:text-orange-400",
+  breached: "bg-destructive text-destructive-foreground animate-pulse",
+};
+
+/** Live countdown to the ticket's current SLA deadline; renders nothing once all are met. */
+export function SlaChip({ deadlines, className }: SlaChipProps) {
+  const config = useSlaConfig();
+  const now = useSlaClock();
+  const state = getSlaState(deadlines, config, now);
+  if (!state) return null;
+
+  const isBreached = state.level === "breached";
+  const Icon = isBreached ? AlertTriangle : Timer;
+  const label = SLA_KIND_LABELS[state.kind];
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[10px] font-medium shrink-0",
+        LEVEL_CLASS[state.level],
+        className
+      )}
+      title={`${label} due ${state.dueAt.toLocaleString()}`}
+    >
+      <Icon className="h-3 w-3" />
+      {formatSlaRemaining(state.remainingMs)} {isBreached ? "over" : "left"}
+    </span>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { businessConfigApi, SlaConfig } from "@/lib/apiClient";
+import { DEFAULT_SLA } from "@/lib/sla";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface SlaTargetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SlaTargetsDialog({ open, onOpenChange }: SlaTargetsDialogProps) {
+  const { businessId } = useBusiness();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<SlaConfig>(DEFAULT_SLA);
+
+  const { data: config, isLoading } = useQuery({
+    queryKey: ["business-config", businessId],
+    queryFn: () => businessConfigApi.get(businessId),
+    enabled: !!businessId && open,
+  });
+
+  useEffect(() => {
+    if (open) setDraft(config?.sla ?? DEFAULT_SLA);
+  }, [open, config]);
+
+  // The config document is saved whole; keep the other sections as loaded
+  const saveMutation = useMutation({
+    mutationFn: (sla: SlaConfig) => businessConfigApi.save(businessId, { ...config, sla }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["business-config", businessId] });
+      toast.success("SLA targets saved");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save SLA targets");
+    },
+  });
+
+  const handleSave = () => {
+    if (draft.first_response_minutes <= 0 || draft.resolution_minutes <= 0) {
+      toast.error("Targets must be greater than zero");
+      return;
+    }
+    if (draft.resolution_minutes < draft.first_response_minutes) {
+      toast.error("Resolution target can't be shorter than first response");
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>SLA Targets</DialogTitle>
+          <DialogDescription>
+            Clocks start when a customer writes in. Tickets past a target are flagged as breached.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="sla-first-response">First response (minutes)</Label>
+              <Input
+                id="sla-first-response"
+                type="number"
+                min={1}
+                value={draft.first_response_minutes}
+                onChange={(e) => setDraft({ ...draft, first_response_minutes: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-resolution">Resolution (minutes)</Label>
+              <Input
+                id="sla-resolution"
+                type="number"
+                min={1}
+                value={draft.resolution_minutes}
+                onChange={(e) => setDraft({ ...draft, resolution_minutes: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !config || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
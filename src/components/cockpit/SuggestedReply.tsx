@@ -0,0 +1,80 @@
+import { Loader2, Pencil, RefreshCw, Send, Sparkles, X } from "lucide-react";
+import { AiSuggestion } from "@/lib/apiClient";
+import { Button } from "@/components/ui/button";
+
+interface SuggestedReplyProps {
+  suggestion: AiSuggestion | null;
+  isLoading: boolean;
+  onAccept: () => void;
+  onEdit: () => void;
+  onDiscard: () => void;
+  onRegenerate?: () => void;
+  disabled?: boolean;
+}
+
+/** The bot's proposed reply, shown above the composer while it is paused. */
+export function SuggestedReply({
+  suggestion,
+  isLoading,
+  onAccept,
+  onEdit,
+  onDiscard,
+  onRegenerate,
+  disabled,
+}: SuggestedReplyProps) {
+  if (!suggestion && !isLoading) return null;
+
+  return (
+    <div className="mb-2 rounded-lg border border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-950/40 p-2">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-violet-700 dark:text-violet-300">
+        <Sparkles className="h-3 w-3" />
+        <span className="flex-1">AI suggestion</span>
+        {onRegenerate && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={onRegenerate}
+            disabled={isLoading || disabled}
+            title="Suggest another reply"
+          >
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+        )}
+        {suggestion && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDiscard} title="Discard">
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {isLoading && !suggestion ? (
+        <div className="flex items-center gap-2 py-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Drafting a reply…
+        </div>
+      ) : (
+        suggestion && (
+          <>
+            <p className="mt-1 max-h-24 overflow-y-auto text-sm whitespace-pre-wrap">{suggestion.text}</p>
+            <div className="mt-2 flex gap-1.5">
+              <Button
+                size="sm"
+                className="h-7 gap-1 text-xs bg-violet-600 hover:bg-violet-700 text-white"
+                onClick={onAccept}
+                disabled={disabled}
+              >
+                <Send className="h-3 w-3" />
+                Send
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onEdit} disabled={disabled}>
+                <Pencil className="h-3 w-3" />
+                Edit first
+              </Button>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
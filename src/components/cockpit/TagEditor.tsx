@@ -0,0 +1,82 @@
+import { Link } from "react-router-dom";
+import { Tag } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useTags } from "@/hooks/use-tags";
+import { ConversationTagging } from "@/lib/apiClient";
+
+interface TagEditorProps {
+  issueType: string | null;
+  tags: string[];
+  onChange: (tagging: ConversationTagging) => void;
+  disabled?: boolean;
+}
+
+// Radix Select can't hold an empty value
+const NONE = "none";
+
+export function TagEditor({ issueType, tags, onChange, disabled }: TagEditorProps) {
+  const { issueTypes, tags: availableTags, isLoading } = useTags();
+
+  const toggleTag = (name: string, checked: boolean) =>
+    onChange({ issue_type: issueType, tags: checked ? [...tags, name] : tags.filter((t) => t !== name) });
+
+  // Tags deleted from the business list still show on tickets that carry them
+  const tagNames = Array.from(new Set([...availableTags.map((t) => t.name), ...tags]));
+  const issueTypeNames = Array.from(new Set([...issueTypes.map((t) => t.name), ...(issueType ? [issueType] : [])]));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="Edit tags" disabled={disabled}>
+          <Tag className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Issue type</Label>
+          <Select
+            value={issueType ?? NONE}
+            onValueChange={(v) => onChange({ issue_type: v === NONE ? null : v, tags })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not set</SelectItem>
+              {issueTypeNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Tags</Label>
+          {tagNames.length === 0 && !isLoading ? (
+            <p className="text-xs text-muted-foreground">
+              No tags yet.{" "}
+              <Link to="/tags" className="underline">
+                Add some
+              </Link>
+            </p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto space-y-1.5">
+              {tagNames.map((name) => (
+                <label key={name} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox checked={tags.includes(name)} onCheckedChange={(checked) => toggleTag(name, checked === true)} />
+                  <span className="truncate">{name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Loader2, Lock, Send } from "lucide-react";
+import { useTemplates } from "@/hooks/use-templates";
+import { buildTemplatePayload, EMPTY_TEMPLATE_PARAMS, getTemplatePreviewText, TemplateParams } from "@/lib/templates";
+import { TemplateParamsFields } from "@/components/broadcast/TemplateParamsFields";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TemplateComposerProps {
+  onSend: (templateName: string, params: Record<string, unknown>) => Promise<void>;
+  disabled?: boolean;
+}
+
+/** Replaces the free-form composer once the 24h window has closed: only approved templates go through. */
+export function TemplateComposer({ onSend, disabled }: TemplateComposerProps) {
+  const { data: templates = [], isLoading } = useTemplates();
+  const [templateId, setTemplateId] = useState("");
+  const [params, setParams] = useState<TemplateParams>(EMPTY_TEMPLATE_PARAMS);
+  const [isSending, setIsSending] = useState(false);
+
+  const template = templates.find((t) => t.id === templateId);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    setParams(EMPTY_TEMPLATE_PARAMS);
+  };
+
+  const handleSend = async () => {
+    if (!templateId || isSending) return;
+    setIsSending(true);
+    try {
+      await onSend(templateId, buildTemplatePayload(templateId, params));
+      setTemplateId("");
+      setParams(EMPTY_TEMPLATE_PARAMS);
+    } catch {
+      // The caller reports the error; keep the selection so it can be retried
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-2 rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+        <Lock className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+        <span>
+          More than 24 hours since the customer's last message. WhatsApp only delivers approved templates until they
+          write again.
+        </span>
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <Select value={templateId} onValueChange={handleTemplateChange} disabled={disabled || isSending || isLoading}>
+          <SelectTrigger className="h-11 rounded-xl">
+            <SelectValue placeholder={isLoading ? "Loading templates…" : "Choose a template"} />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleSend}
+          disabled={disabled || isSending || !templateId}
+          size="icon"
+          className="h-11 w-11 shrink-0 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white"
+          title="Send template"
+        >
+          {isSending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5 ml-0.5" />}
+        </Button>
+      </div>
+
+      {templateId && (
+        <div className="max-h-64 overflow-y-auto space-y-3">
+          <TemplateParamsFields templateId={templateId} params={params} onChange={setParams} idPrefix="cockpit-" />
+          {template?.body && (
+            <p className="rounded-lg bg-[#dcf8c6] dark:bg-emerald-900/40 p-2 text-sm whitespace-pre-wrap">
+              {getTemplatePreviewText(templateId, template.body, params)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
+import { useEffect, useRef } from "react";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import { Bot, User, Pause } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, normalizeUTC } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useConversationPresence } from "@/hooks/use-presence";
+import { SlaChip } from "./SlaChip";
+import { PresenceAvatars } from "./PresenceAvatars";
 
 export interface Ticket {
   _id: string;
@@ -16,24 +21,45 @@ export interface Ticket {
   assigned_to_username?: string | null;
   ai_enabled?: boolean;
   ai_paused_by?: string | null;
+  ai_pause_reason?: string | null;
+  ai_resume_at?: string | null;
   last_at?: string | null;
   created_at?: string;
+  unread_count?: number;
+  last_read_at?: string | null;
+  first_response_due_at?: string | null;
+  resolution_due_at?: string | null;
+  tags?: string[];
+  disposition?: string | null;
 }
 
 interface TicketCardProps {
   ticket: Ticket;
   isSelected: boolean;
   onClick: () => void;
+  // Multi-select for bulk actions; the checkbox shows on hover until something is checked
+  isChecked?: boolean;
+  isSelecting?: boolean;
+  onCheck?: (shiftKey: boolean) => void;
 }
 
-const normalizeUTC = (dateStr: string) =>
-  dateStr.endsWith("Z") ? dateStr : `${dateStr}Z`;
+// Tags shown on the card before collapsing into "+n"
+const MAX_VISIBLE_TAGS = 2;
 
-export function TicketCard({ ticket, isSelected, onClick }: TicketCardProps) {
+export function TicketCard({ ticket, isSelected, onClick, isChecked, isSelecting, onCheck }: TicketCardProps) {
   const dateStr = ticket.created_at || ticket.last_at;
   const createdAt = dateStr ? new Date(normalizeUTC(dateStr)) : new Date();
   const timeAgo = formatDistanceToNow(createdAt, { addSuffix: true });
   const displayPhone = ticket.phone || ticket.customer_phone || "Unknown";
+  const unreadCount = ticket.unread_count ?? 0;
+  const tags = ticket.tags ?? [];
+  const cardRef = useRef<HTMLDivElement>(null);
+  const presence = useConversationPresence(ticket._id);
+
+  // Keep the selection visible when moving through the queue with the keyboard
+  useEffect(() => {
+    if (isSelected) cardRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isSelected]);
 
   // AI status: active if enabled and not paused
   const isAiActive = ticket.ai_enabled === true && ticket.ai_paused_by === null;
@@ -60,57 +86,91 @@ export function TicketCard({ ticket, isSelected, onClick }: TicketCardProps) {
 
   return (
     <div
+      ref={cardRef}
       onClick={onClick}
       className={cn(
-        "p-3 border-b border-border cursor-pointer transition-colors",
+        "group flex gap-2 p-3 border-b border-border cursor-pointer transition-colors",
         "hover:bg-muted/50",
-        isSelected && "bg-primary/15 border-l-4 border-l-primary"
+        isSelected && "bg-primary/15 border-l-4 border-l-primary",
+        isChecked && "bg-primary/5"
       )}
     >
-      <div className="flex items-start justify-between gap-2 mb-1">
-        <span className="font-mono text-sm font-medium text-foreground">
-          {displayPhone}
-        </span>
-        <div className="flex items-center gap-1.5">
-          {isAiActive ? (
-            <Badge variant="secondary" className="text-xs gap-1 shrink-0 bg-green-900/30 text-green-400 hover:bg-green-900/40">
-              <Bot className="h-3 w-3" />
-              AI Active
-            </Badge>
-          ) : (
-            <Badge variant="secondary" className="text-xs gap-1 shrink-0 bg-yellow-900/30 text-yellow-400 hover:bg-yellow-900/40">
-              <Pause className="h-3 w-3" />
-              AI Paused
-            </Badge>
-          )}
-          {getStatusBadge()}
-        </div>
-      </div>
-      
-      <div className="flex items-center justify-between gap-2 mt-1">
-        <div className="flex items-center gap-2">
-          {ticket.issue_type && (
-            <Badge variant="outline" className="text-xs">
-              {ticket.issue_type}
-            </Badge>
-          )}
-          {ticket.preview && (
-            <span className="text-xs text-muted-foreground truncate max-w-[120px]">
-              {ticket.preview}
+      {onCheck && (
+        <Checkbox
+          checked={!!isChecked}
+          onClick={(e) => {
+            e.stopPropagation();
+            onCheck(e.shiftKey);
+          }}
+          className={cn("mt-0.5", !isSelecting && "opacity-0 group-hover:opacity-100")}
+          aria-label="Select ticket"
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2 mb-1">
+          <span className="flex items-center gap-1.5 min-w-0">
+            <span className={cn("font-mono text-sm text-foreground", unreadCount > 0 ? "font-bold" : "font-medium")}>
+              {displayPhone}
             </span>
-          )}
-          <span className="text-xs text-muted-foreground">{timeAgo}</span>
+            {unreadCount > 0 && (
+              <span className="shrink-0 h-5 min-w-5 px-1.5 rounded-full bg-emerald-600 text-white text-[10px] font-semibold leading-5 text-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </span>
+          <div className="flex items-center gap-1.5">
+            <PresenceAvatars entries={presence} size="sm" />
+            {isAiActive ? (
+              <Badge variant="secondary" className="text-xs gap-1 shrink-0 bg-green-900/30 text-green-400 hover:bg-green-900/40">
+                <Bot className="h-3 w-3" />
+                AI Active
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="text-xs gap-1 shrink-0 bg-yellow-900/30 text-yellow-400 hover:bg-yellow-900/40">
+                <Pause className="h-3 w-3" />
+                AI Paused
+              </Badge>
+            )}
+            {getStatusBadge()}
+          </div>
         </div>
+      
+        <div className="flex items-center justify-between gap-2 mt-1">
+          <div className="flex items-center gap-2">
+            {ticket.issue_type && (
+              <Badge variant="outline" className="text-xs">
+                {ticket.issue_type}
+              </Badge>
+            )}
+            {tags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
+            {tags.length > MAX_VISIBLE_TAGS && (
+              <span className="text-xs text-muted-foreground" title={tags.slice(MAX_VISIBLE_TAGS).join(", ")}>
+                +{tags.length - MAX_VISIBLE_TAGS}
+              </span>
+            )}
+            {ticket.preview && (
+              <span className="text-xs text-muted-foreground truncate max-w-[120px]">
+                {ticket.preview}
+              </span>
+            )}
+            <span className="text-xs text-muted-foreground">{timeAgo}</span>
+            <SlaChip deadlines={ticket} />
+          </div>
         
-        <span className={cn(
-          "inline-flex items-center gap-1 text-xs rounded-full px-2 py-0.5 max-w-[100px]",
-          ticket.assigned_to 
-            ? "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300" 
-            : "bg-muted text-muted-foreground"
-        )}>
-          <User className="h-3 w-3 shrink-0" />
-          <span className="truncate">{getAssignmentDisplay()}</span>
-        </span>
+          <span className={cn(
+            "inline-flex items-center gap-1 text-xs rounded-full px-2 py-0.5 max-w-[100px]",
+            ticket.assigned_to 
+              ? "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300" 
+              : "bg-muted text-muted-foreground"
+          )}>
+            <User className="h-3 w-3 shrink-0" />
+            <span className="truncate">{getAssignmentDisplay()}</span>
+          </span>
+        </div>
       </div>
     </div>
   );
@@ -1,10 +1,28 @@
+import { RefObject, useEffect, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { TicketCard, Ticket } from "./TicketCard";
 import { BusinessSelector } from "./BusinessSelector";
-import { RefreshCw, Inbox } from "lucide-react";
+import { SearchResults } from "./SearchResults";
+import { QueueFilters } from "./QueueFilters";
+import { BulkActionBar } from "./BulkActionBar";
+import { ExportTranscriptDialog } from "./ExportTranscriptDialog";
+import { RefreshCw, Inbox, Search, X, Trash2, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { ConversationFilters, ConversationSearchResult } from "@/lib/apiClient";
+import { CUSTOM_VIEW_ID, QueueView } from "@/lib/queueViews";
+import { BulkAction } from "@/lib/bulkActions";
 
 interface TicketQueueProps {
   tickets: Ticket[] | undefined;
@@ -12,13 +30,29 @@ interface TicketQueueProps {
   isError: boolean;
   isFetching: boolean;
   selectedTicketId: string | null;
-  filter: string;
-  onFilterChange: (filter: string) => void;
+  views: QueueView[];
+  viewId: string;
+  onViewChange: (viewId: string) => void;
+  filters: ConversationFilters;
+  onFiltersChange: (filters: ConversationFilters) => void;
+  onSaveView: (name: string) => void;
+  onDeleteView: (viewId: string) => void;
   onSelectTicket: (ticket: Ticket) => void;
   onRefresh: () => void;
   hasMore?: boolean;
   isLoadingMore?: boolean;
   onLoadMore?: () => void;
+  isLive?: boolean;
+  searchQuery?: string;
+  searchInputRef?: RefObject<HTMLInputElement>;
+  onSearchChange?: (query: string) => void;
+  // undefined while no search is active (query shorter than the minimum)
+  searchResults?: ConversationSearchResult[];
+  isSearching?: boolean;
+  isSearchError?: boolean;
+  onSelectSearchResult?: (result: ConversationSearchResult) => void;
+  // Multi-select is hidden without it
+  onBulkAction?: (tickets: Ticket[], action: BulkAction) => void;
 }
 
 export function TicketQueue({
@@ -27,33 +61,169 @@ export function TicketQueue({
   isError,
   isFetching,
   selectedTicketId,
-  filter,
-  onFilterChange,
+  views,
+  viewId,
+  onViewChange,
+  filters,
+  onFiltersChange,
+  onSaveView,
+  onDeleteView,
   onSelectTicket,
   onRefresh,
   hasMore,
   isLoadingMore,
   onLoadMore,
+  isLive,
+  searchQuery = "",
+  searchInputRef,
+  onSearchChange,
+  searchResults,
+  isSearching,
+  isSearchError,
+  onSelectSearchResult,
+  onBulkAction,
 }: TicketQueueProps) {
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  // Last ticket checked without shift; shift-click selects the range from here
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  // A selection only makes sense within the list it was made in
+  useEffect(() => {
+    setCheckedIds(new Set());
+    setAnchorId(null);
+  }, [viewId, filters]);
+
+  // Tickets that left the list (resolved elsewhere, filtered out) drop from the selection
+  const checkedTickets = tickets?.filter((t) => checkedIds.has(t._id)) ?? [];
+  const isSelecting = checkedTickets.length > 0;
+
+  const handleCheck = (ticket: Ticket, shiftKey: boolean) => {
+    const list = tickets ?? [];
+    const anchorIndex = anchorId ? list.findIndex((t) => t._id === anchorId) : -1;
+    const next = new Set(checkedIds);
+    if (shiftKey && anchorIndex !== -1) {
+      // Range takes the anchor's state, like a file manager
+      const index = list.findIndex((t) => t._id === ticket._id);
+      const check = checkedIds.has(anchorId);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      list.slice(from, to + 1).forEach((t) => (check ? next.add(t._id) : next.delete(t._id)));
+    } else {
+      if (next.has(ticket._id)) next.delete(ticket._id);
+      else next.add(ticket._id);
+      setAnchorId(ticket._id);
+    }
+    setCheckedIds(next);
+  };
+
+  const clearChecked = () => {
+    setCheckedIds(new Set());
+    setAnchorId(null);
+  };
+
+  const handleToggleAll = () => {
+    const allChecked = checkedTickets.length === (tickets?.length ?? 0);
+    setCheckedIds(allChecked ? new Set() : new Set(tickets?.map((t) => t._id)));
+  };
+
+  // Snapshot of what is being exported, so clearing the selection doesn't empty the dialog
+  const [exportTickets, setExportTickets] = useState<Ticket[]>([]);
+
+  const handleBulkAction = (action: BulkAction) => {
+    onBulkAction?.(checkedTickets, action);
+    clearChecked();
+  };
+
+  const isSearchActive = searchResults !== undefined || isSearching;
+  const builtInViews = views.filter((v) => v.builtIn);
+  const savedViews = views.filter((v) => !v.builtIn);
+  const isSavedView = savedViews.some((v) => v.id === viewId);
+
   return (
     <div className="flex flex-col h-full border-r border-border">
       {/* Header */}
       <div className="p-3 border-b border-border bg-muted/30 space-y-2">
         {/* Business Selector Row */}
         <BusinessSelector />
+
+        {/* Search Row */}
+        {onSearchChange && (
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              ref={searchInputRef}
+              value={searchQuery}
+              onChange={(e) => onSearchChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key !== "Escape") return;
+                onSearchChange("");
+                e.currentTarget.blur();
+              }}
+              placeholder="Search phone, name, order or message"
+              className="h-8 text-xs pl-8 pr-8"
+            />
+            {searchQuery && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 top-0 h-8 w-8"
+                onClick={() => onSearchChange("")}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        )}
         
         {/* Filter + Refresh Row */}
         <div className="flex items-center gap-2">
-          <Select value={filter} onValueChange={onFilterChange}>
-            <SelectTrigger className="h-8 text-xs flex-1">
+          <Select value={viewId} onValueChange={onViewChange}>
+            <SelectTrigger className="h-8 text-xs flex-1 min-w-0">
               <SelectValue placeholder="Filter tickets" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">Needs Attention</SelectItem>
-              <SelectItem value="pending">Bot Active</SelectItem>
-              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectGroup>
+                {builtInViews.map((view) => (
+                  <SelectItem key={view.id} value={view.id}>
+                    {view.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {savedViews.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel className="text-xs">My views</SelectLabel>
+                  {savedViews.map((view) => (
+                    <SelectItem key={view.id} value={view.id}>
+                      {view.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {viewId === CUSTOM_VIEW_ID && <SelectItem value={CUSTOM_VIEW_ID}>Custom filters</SelectItem>}
             </SelectContent>
           </Select>
+
+          {isSavedView && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onDeleteView(viewId)}
+              title="Delete this view"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+
+          <QueueFilters filters={filters} onChange={onFiltersChange} onSaveView={onSaveView} />
+
+          {/* Realtime connection indicator */}
+          <span
+            className="flex items-center gap-1 text-[10px] text-muted-foreground shrink-0"
+            title={isLive ? "Receiving live updates" : "Live updates unavailable - polling for changes"}
+          >
+            <span className={cn("h-2 w-2 rounded-full", isLive ? "bg-emerald-500" : "bg-amber-500")} />
+            {isLive ? "Live" : "Polling"}
+          </span>
           
           <Button
             variant="ghost"
@@ -69,65 +239,106 @@ export function TicketQueue({
 
       {/* Ticket List */}
       <ScrollArea className="flex-1">
-        {isLoading && (
-          <div className="p-3 space-y-3">
-            {[...Array(6)].map((_, i) => (
-              <Skeleton key={i} className="h-16 w-full" />
-            ))}
-          </div>
-        )}
+        {isSearchActive ? (
+          <SearchResults
+            query={searchQuery}
+            results={searchResults}
+            isLoading={isSearching}
+            isError={isSearchError}
+            selectedTicketId={selectedTicketId}
+            onSelect={(result) => onSelectSearchResult?.(result)}
+          />
+        ) : (
+          <>
+            {isLoading && (
+              <div className="p-3 space-y-3">
+                {[...Array(6)].map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            )}
 
-        {isError && (
-          <div className="p-4 text-center text-sm text-destructive">
-            Failed to load tickets
-            <Button variant="link" size="sm" onClick={onRefresh} className="block mx-auto mt-1">
-              Retry
-            </Button>
-          </div>
-        )}
+            {isError && (
+              <div className="p-4 text-center text-sm text-destructive">
+                Failed to load tickets
+                <Button variant="link" size="sm" onClick={onRefresh} className="block mx-auto mt-1">
+                  Retry
+                </Button>
+              </div>
+            )}
 
-        {!isLoading && !isError && tickets?.length === 0 && (
-          <div className="p-6 text-center text-muted-foreground">
-            <Inbox className="h-8 w-8 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">No tickets found</p>
-          </div>
-        )}
+            {!isLoading && !isError && tickets?.length === 0 && (
+              <div className="p-6 text-center text-muted-foreground">
+                <Inbox className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No tickets found</p>
+              </div>
+            )}
 
-        {!isLoading && !isError && tickets && tickets.length > 0 && (
-          <div>
-            {tickets.map((ticket) => (
-              <TicketCard
-                key={ticket._id}
-                ticket={ticket}
-                isSelected={selectedTicketId === ticket._id}
-                onClick={() => onSelectTicket(ticket)}
-              />
-            ))}
-            
-            {/* Load More Button */}
-            {hasMore && onLoadMore && (
-              <div className="p-3">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full"
-                  onClick={onLoadMore}
-                  disabled={isLoadingMore}
-                >
-                  {isLoadingMore ? "Loading..." : "Load More"}
-                </Button>
+            {!isLoading && !isError && tickets && tickets.length > 0 && (
+              <div>
+                {tickets.map((ticket) => (
+                  <TicketCard
+                    key={ticket._id}
+                    ticket={ticket}
+                    isSelected={selectedTicketId === ticket._id}
+                    onClick={() => onSelectTicket(ticket)}
+                    isChecked={checkedIds.has(ticket._id)}
+                    isSelecting={isSelecting}
+                    onCheck={onBulkAction ? (shiftKey) => handleCheck(ticket, shiftKey) : undefined}
+                  />
+                ))}
+                
+                {/* Load More Button */}
+                {hasMore && onLoadMore && (
+                  <div className="p-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={onLoadMore}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? "Loading..." : "Load More"}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
-          </div>
+          </>
         )}
       </ScrollArea>
 
-      {/* Footer with count */}
-      {tickets && tickets.length > 0 && (
-        <div className="p-2 border-t border-border bg-muted/20 text-xs text-muted-foreground text-center">
+      {/* Footer: bulk actions while tickets are checked, otherwise the count */}
+      {!isSearchActive && isSelecting && (
+        <BulkActionBar
+          checkedCount={checkedTickets.length}
+          allChecked={checkedTickets.length === tickets.length}
+          onToggleAll={handleToggleAll}
+          onClear={clearChecked}
+          onAction={handleBulkAction}
+          onExport={() => setExportTickets(checkedTickets)}
+        />
+      )}
+      {!isSearchActive && !isSelecting && tickets && tickets.length > 0 && (
+        <div className="relative p-2 border-t border-border bg-muted/20 text-xs text-muted-foreground text-center">
           {tickets.length} ticket{tickets.length !== 1 ? "s" : ""}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-6 w-6"
+            title="Export transcripts of the tickets in this view"
+            onClick={() => setExportTickets(tickets)}
+          >
+            <Download className="h-3.5 w-3.5" />
+          </Button>
         </div>
       )}
+
+      <ExportTranscriptDialog
+        open={exportTickets.length > 0}
+        onOpenChange={(open) => !open && setExportTickets([])}
+        tickets={exportTickets}
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Eye, AlertTriangle } from "lucide-react";
+import { placeholderWarnings } from "@/lib/placeholders";
 
 interface StringPreviewCardProps {
   activeString: { key: string; value: string } | null;
@@ -10,24 +11,6 @@ interface StringPreviewCardProps {
   onBusinessChange: (value: string) => void;
 }
 
-// Backend variable names (without braces)
-const ALLOWED_PLACEHOLDERS = [
-  "Store_Name",
-  "Store_Address",
-  "Support_Phone",
-  "Wholesale_Phone",
-  "Support_Email",
-  "Store_Hours",
-  "Website_URL",
-  "Shipping_Policy_URL",
-  "Google_Review_Link",
-  "Social_Media_Links",
-  "order_number",
-  "tracking_link",
-  "estimated_delivery",
-  "city_info",
-];
-
 // Mock context uses {{Variable}} format as keys
 const MOCK_CONTEXT: Record<"feelori" | "golden", Record<string, string>> = {
   feelori: {
@@ -64,61 +47,6 @@ const MOCK_CONTEXT: Record<"feelori" | "golden", Record<string, string>> = {
   },
 };
 
-// Extract all placeholders from text (double curly braces)
-const extractPlaceholders = (text: string): string[] => {
-  const regex = /\{\{([^}]+)\}\}/g;
-  const matches: string[] = [];
-  let match;
-  while ((match = regex.exec(text)) !== null) {
-    matches.push(match[1]);
-  }
-  return matches;
-};
-
-// Find unknown placeholders (case-insensitive comparison)
-const findUnknownPlaceholders = (placeholders: string[]): string[] => {
-  return placeholders.filter((p) => {
-    const lowerP = p.toLowerCase();
-    return !ALLOWED_PLACEHOLDERS.some(allowed => allowed.toLowerCase() === lowerP);
-  });
-};
-
-// Suggest similar placeholder (case-insensitive)
-const suggestPlaceholder = (unknown: string): string | null => {
-  const lower = unknown.toLowerCase();
-  
-  // Direct case-insensitive match
-  for (const allowed of ALLOWED_PLACEHOLDERS) {
-    if (allowed.toLowerCase() === lower) {
-      return allowed;
-    }
-  }
-  
-  // Partial match
-  for (const allowed of ALLOWED_PLACEHOLDERS) {
-    const allowedLower = allowed.toLowerCase().replace(/_/g, "");
-    if (allowedLower.includes(lower) || lower.includes(allowedLower)) {
-      return allowed;
-    }
-  }
-  
-  // Common typo mappings
-  if (lower.includes("delivery") || lower.includes("date")) return "estimated_delivery";
-  if (lower.includes("track")) return "tracking_link";
-  if (lower.includes("order")) return "order_number";
-  if (lower.includes("email")) return "Support_Email";
-  if (lower.includes("phone")) return "Support_Phone";
-  if (lower.includes("address")) return "Store_Address";
-  if (lower.includes("name") || lower.includes("store") || lower.includes("business")) return "Store_Name";
-  if (lower.includes("url") || lower.includes("website")) return "Website_URL";
-  if (lower.includes("hour")) return "Store_Hours";
-  if (lower.includes("review") || lower.includes("google")) return "Google_Review_Link";
-  if (lower.includes("social") || lower.includes("media")) return "Social_Media_Links";
-  if (lower.includes("shipping") || lower.includes("policy")) return "Shipping_Policy_URL";
-  if (lower.includes("wholesale")) return "Wholesale_Phone";
-  return null;
-};
-
 // Replace {{placeholders}} with mock values
 const renderPreview = (text: string, context: Record<string, string>): string => {
   let result = text;
@@ -141,16 +69,7 @@ export default function StringPreviewCard({
       return { renderedPreview: "", warnings: [] };
     }
 
-    const placeholders = extractPlaceholders(activeString.value);
-    const unknownPlaceholders = findUnknownPlaceholders(placeholders);
-
-    const warningMessages = unknownPlaceholders.map((unknown) => {
-      const suggestion = suggestPlaceholder(unknown);
-      if (suggestion) {
-        return `Unknown variable '{{${unknown}}}'. Did you mean '{{${suggestion}}}'?`;
-      }
-      return `Unknown variable '{{${unknown}}}'. Allowed: ${ALLOWED_PLACEHOLDERS.map(p => `{{${p}}}`).join(", ")}`;
-    });
+    const warningMessages = placeholderWarnings(activeString.value);
 
     return {
       renderedPreview: renderPreview(activeString.value, context),
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { agentsApi } from "@/lib/apiClient";
+
+/** Agents of the current tenant, shared by the assignee picker, queue filters and @mentions. */
+export function useAgents() {
+  return useQuery({
+    queryKey: ["agents"],
+    queryFn: agentsApi.list,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { useAgents } from "@/hooks/use-agents";
+import { useRealtime } from "@/hooks/use-realtime";
+import { Agent, AgentStatus, agentsApi, AssignmentConfig, businessConfigApi } from "@/lib/apiClient";
+import { DEFAULT_ASSIGNMENT } from "@/lib/assignment";
+
+/** The current business's assignment rules, falling back to manual until configured. */
+export function useAssignmentConfig(): AssignmentConfig {
+  const { businessId } = useBusiness();
+  const { data } = useQuery({
+    queryKey: ["business-config", businessId],
+    queryFn: () => businessConfigApi.get(businessId),
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000,
+  });
+  return data?.assignment ?? DEFAULT_ASSIGNMENT;
+}
+
+/**
+ * The signed-in agent's availability, and a setter. Keeps the shared agents
+ * cache in step with everyone's status changes, so mount it once in the shell.
+ */
+export function useAgentStatus() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: agents } = useAgents();
+
+  const setCachedStatus = (userId: string, status: AgentStatus) =>
+    queryClient.setQueryData<Agent[]>(["agents"], (old) =>
+      old?.map((agent) => (agent.user_id === userId ? { ...agent, status } : agent))
+    );
+
+  useRealtime((event) => {
+    if (event.type === "agent.status") setCachedStatus(event.user_id, event.status);
+    // Open-ticket counts shift with every (auto-)assignment
+    if (event.type === "conversation.assigned") queryClient.invalidateQueries({ queryKey: ["agents"] });
+  });
+
+  const mutation = useMutation({
+    mutationFn: agentsApi.setStatus,
+    onMutate: (status) => {
+      const previous = queryClient.getQueryData<Agent[]>(["agents"]);
+      if (user?.id) setCachedStatus(user.id, status);
+      return { previous };
+    },
+    onError: (_error, _status, context) => {
+      if (context?.previous) queryClient.setQueryData(["agents"], context.previous);
+    },
+  });
+
+  const me = agents?.find((agent) => agent.user_id === user?.id);
+  return {
+    status: me?.status ?? "offline",
+    setStatus: (status: AgentStatus) => mutation.mutateAsync(status),
+    isPending: mutation.isPending,
+  };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from "react";
+import { Command, getCommands, registerCommands, subscribeCommands } from "@/lib/commands";
+
+/**
+ * Registers commands while the calling component is mounted. Handlers are read
+ * through a ref, so inline closures don't re-register on every render.
+ */
+export function useRegisterCommands(commands: Command[]) {
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+  const signature = commands.map((c) => `${c.id}:${c.label}:${c.shortcut ?? ""}`).join("|");
+
+  useEffect(
+    () =>
+      registerCommands(
+        commandsRef.current.map((command) => ({
+          ...command,
+          run: () => commandsRef.current.find((c) => c.id === command.id)?.run(),
+        }))
+      ),
+    [signature]
+  );
+}
+
+/** Everything currently registered, kept up to date. */
+export function useCommands(): Command[] {
+  const [commands, setCommands] = useState(getCommands);
+  useEffect(() => subscribeCommands(() => setCommands(getCommands())), []);
+  return commands;
+}
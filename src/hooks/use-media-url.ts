@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { sendRequest } from "@/lib/api";
+
+// Blob URLs for authenticated media, shared across components and kept for the page's lifetime
+const blobCache = new Map<string, string>();
+
+if (typeof window !== "undefined") {
+  window.addEventListener("beforeunload", () => {
+    blobCache.forEach((url) => window.URL.revokeObjectURL(url));
+    blobCache.clear();
+  });
+}
+
+/** Seeds the cache with a file the agent just uploaded, so the thread shows it without downloading it back. */
+export function primeMediaUrl(mediaId: string, blob: Blob) {
+  if (!blobCache.has(mediaId)) blobCache.set(mediaId, window.URL.createObjectURL(blob));
+}
+
+/**
+ * Fetches media through the API (it needs the auth header, so a plain src URL
+ * won't do) and returns an object URL for <img>, <audio>, <video> or a download link.
+ */
+export function useMediaUrl(mediaId: string | null | undefined) {
+  const [url, setUrl] = useState<string | null>(mediaId ? blobCache.get(mediaId) ?? null : null);
+  const [isLoading, setIsLoading] = useState(!url);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    if (!mediaId) return;
+    let isMounted = true;
+
+    const cached = blobCache.get(mediaId);
+    if (cached) {
+      setUrl(cached);
+      setIsLoading(false);
+      setHasError(false);
+      return;
+    }
+
+    setUrl(null);
+    setIsLoading(true);
+    setHasError(false);
+    sendRequest(`/api/v1/conversations/media/${mediaId}`)
+      .then((response) => response.blob())
+      .then((blob) => {
+        const objectUrl = window.URL.createObjectURL(blob);
+        blobCache.set(mediaId, objectUrl);
+        if (isMounted) setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error("[media] Error fetching media:", error);
+        if (isMounted) setHasError(true);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [mediaId]);
+
+  return { url, isLoading, hasError };
+}
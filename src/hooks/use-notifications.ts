@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRealtime } from "@/hooks/use-realtime";
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  loadNotificationPrefs,
+  notify,
+  NotificationKind,
+  NotificationPrefs,
+  AlertPayload,
+  storeNotificationPrefs,
+} from "@/lib/notifications";
+import { SLA_KIND_LABELS } from "@/lib/sla";
+
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Turns realtime events into desktop/sound alerts for the signed-in agent.
+ * Mounted once in the dashboard shell so alerts fire on every page, and
+ * returns the agent's preferences for the settings popover.
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const userId = user?.id;
+  const [prefs, setPrefs] = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+
+  useEffect(() => {
+    setPrefs(userId ? loadNotificationPrefs(userId) : DEFAULT_NOTIFICATION_PREFS);
+  }, [userId]);
+
+  const updatePrefs = (next: NotificationPrefs) => {
+    setPrefs(next);
+    if (userId) storeNotificationPrefs(userId, next);
+  };
+
+  const openConversation = (conversationId: string) => () =>
+    navigate("/conversations", { state: { conversationId } });
+
+  const alert = (kind: NotificationKind, payload: AlertPayload) => notify(prefs, kind, payload);
+
+  useRealtime((event) => {
+    switch (event.type) {
+      case "conversation.created":
+        if (event.conversation.status === "human_needed") {
+          alert("escalation", {
+            title: "Customer needs a human",
+            body: `${event.conversation.phone}: ${event.conversation.preview ?? ""}`.slice(0, PREVIEW_LENGTH),
+            tag: `conversation:${event.conversation.id}`,
+            onClick: openConversation(event.conversation.id),
+          });
+        }
+        break;
+      case "conversation.status":
+        if (event.status === "human_needed") {
+          alert("escalation", {
+            title: "Customer needs a human",
+            body: "A conversation was escalated by the bot",
+            tag: `conversation:${event.conversation_id}`,
+            onClick: openConversation(event.conversation_id),
+          });
+        }
+        break;
+      case "message.created": {
+        const { message } = event;
+        if (message.sender === "user" && userId && event.assigned_to === userId) {
+          alert("assigned_message", {
+            title: "New message on your ticket",
+            body: message.text ? message.text.slice(0, PREVIEW_LENGTH) : "New message",
+            tag: `conversation:${event.conversation_id}`,
+            onClick: openConversation(event.conversation_id),
+          });
+        }
+        break;
+      }
+      case "conversation.sla_breached":
+        // Unassigned breaches go to everyone; assigned ones only to the owner
+        if (!event.assigned_to || event.assigned_to === userId) {
+          alert("sla_breach", {
+            title: `${SLA_KIND_LABELS[event.sla]} SLA breached`,
+            body: event.phone ? `Conversation with ${event.phone} is overdue` : "A conversation is overdue",
+            tag: `sla:${event.conversation_id}`,
+            onClick: openConversation(event.conversation_id),
+          });
+        }
+        break;
+      case "note.created":
+        if (userId && event.note.author_id !== userId && event.note.mentions?.includes(userId)) {
+          alert("mention", {
+            title: `${event.note.author_name} mentioned you`,
+            body: event.note.text.slice(0, PREVIEW_LENGTH),
+            tag: `note:${event.note.id}`,
+            onClick: openConversation(event.conversation_id),
+          });
+        }
+        break;
+    }
+  });
+
+  return { prefs, updatePrefs };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { flushOutbox, getOutbox, subscribeToOutbox, OutboxEntry } from "@/lib/outbox";
+
+/**
+ * Returns the queued agent replies and flushes the business's pending ones
+ * on mount and whenever the browser comes back online.
+ */
+export function useOutbox(businessId: string): OutboxEntry[] {
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutbox());
+
+  useEffect(() => subscribeToOutbox(setEntries), []);
+
+  useEffect(() => {
+    const handleOnline = () => flushOutbox(businessId);
+    handleOnline();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [businessId]);
+
+  return entries;
+}
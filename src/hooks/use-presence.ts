@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRealtime } from "@/hooks/use-realtime";
+import {
+  announcePresence,
+  applyPresenceEvent,
+  getPresence,
+  leavePresence,
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_SWEEP_MS,
+  PresenceEntry,
+  prunePresence,
+  refreshPresence,
+  subscribeToPresence,
+} from "@/lib/presence";
+
+/**
+ * Feeds presence events into the shared map, keeps this agent's own presence
+ * alive and re-announces it after a reconnect. Mount once in the shell.
+ */
+export function usePresenceSync() {
+  const status = useRealtime(applyPresenceEvent);
+
+  useEffect(() => {
+    if (status === "open") refreshPresence();
+  }, [status]);
+
+  useEffect(() => {
+    const heartbeat = setInterval(refreshPresence, PRESENCE_HEARTBEAT_MS);
+    const sweep = setInterval(prunePresence, PRESENCE_SWEEP_MS);
+    return () => {
+      clearInterval(heartbeat);
+      clearInterval(sweep);
+    };
+  }, []);
+}
+
+/** Other agents viewing or typing in the conversation. */
+export function useConversationPresence(conversationId: string | undefined): PresenceEntry[] {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<PresenceEntry[]>([]);
+
+  useEffect(() => {
+    if (!conversationId) {
+      setEntries([]);
+      return;
+    }
+    const update = () => setEntries(getPresence(conversationId, userId));
+    update();
+    return subscribeToPresence(update);
+  }, [conversationId, userId]);
+
+  return entries;
+}
+
+/**
+ * Announces that this agent has the conversation open for as long as the
+ * caller is mounted. Returns a callback to report keystrokes.
+ */
+export function useAnnouncePresence(conversationId: string | undefined): () => void {
+  useEffect(() => {
+    if (!conversationId) return;
+    announcePresence(conversationId, "viewing");
+    return () => leavePresence(conversationId);
+  }, [conversationId]);
+
+  return useCallback(() => {
+    if (conversationId) announcePresence(conversationId, "typing");
+  }, [conversationId]);
+}
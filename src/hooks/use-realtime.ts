@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getRealtimeStatus,
+  subscribeToRealtime,
+  subscribeToRealtimeStatus,
+  RealtimeEvent,
+  RealtimeStatus,
+} from "@/lib/realtime";
+
+/**
+ * Subscribes to realtime conversation events for the lifetime of the component.
+ * Returns the socket status so callers can fall back to polling when it is not "open".
+ */
+export function useRealtime(onEvent?: (event: RealtimeEvent) => void): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>(getRealtimeStatus());
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    const unsubscribeStatus = subscribeToRealtimeStatus(setStatus);
+    const unsubscribeEvents = subscribeToRealtime((event) => handlerRef.current?.(event));
+    setStatus(getRealtimeStatus());
+    return () => {
+      unsubscribeEvents();
+      unsubscribeStatus();
+    };
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { businessConfigApi, SlaConfig } from "@/lib/apiClient";
+import { DEFAULT_SLA } from "@/lib/sla";
+
+// Countdowns show minutes; a 15s tick keeps them within a minute of the truth
+const SLA_TICK_MS = 15000;
+
+/** The current business's SLA targets, falling back to the defaults until configured. */
+export function useSlaConfig(): SlaConfig {
+  const { businessId } = useBusiness();
+  const { data } = useQuery({
+    queryKey: ["business-config", businessId],
+    queryFn: () => businessConfigApi.get(businessId),
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000,
+  });
+  return data?.sla ?? DEFAULT_SLA;
+}
+
+/** Re-renders the caller on an interval so SLA countdowns stay live. */
+export function useSlaClock(intervalMs: number = SLA_TICK_MS): number {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+  return now;
+}
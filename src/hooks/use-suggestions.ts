@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRealtime } from "@/hooks/use-realtime";
+import { AiSuggestion, conversationsApi } from "@/lib/apiClient";
+import { loadSuggestMode, storeSuggestMode } from "@/lib/suggestions";
+
+/** The signed-in agent's suggest-mode preference. */
+export function useSuggestMode(): [boolean, (enabled: boolean) => void] {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    setEnabled(userId ? loadSuggestMode(userId) : false);
+  }, [userId]);
+
+  const update = (next: boolean) => {
+    setEnabled(next);
+    if (userId) storeSuggestMode(userId, next);
+  };
+
+  return [enabled, update];
+}
+
+/**
+ * The bot's current suggestion for a paused conversation. Pushed suggestions
+ * replace it, and a new customer message makes it stale until the next one.
+ */
+export function useAiSuggestion(conversationId: string | undefined, enabled: boolean) {
+  const queryClient = useQueryClient();
+  const isActive = !!conversationId && enabled;
+
+  const query = useQuery({
+    queryKey: ["suggestion", conversationId],
+    queryFn: () => conversationsApi.getSuggestion(conversationId),
+    enabled: isActive,
+  });
+
+  useRealtime((event) => {
+    if (!isActive) return;
+    if (event.type === "conversation.suggestion" && event.conversation_id === conversationId) {
+      queryClient.setQueryData<AiSuggestion | null>(["suggestion", conversationId], event.suggestion);
+    } else if (
+      event.type === "message.created" &&
+      event.conversation_id === conversationId &&
+      event.message.sender === "user"
+    ) {
+      queryClient.invalidateQueries({ queryKey: ["suggestion", conversationId] });
+    }
+  });
+
+  return query;
+}
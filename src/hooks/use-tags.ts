@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { ConversationTag, TagKind, tagsApi } from "@/lib/apiClient";
+
+/** The current business's tags, split by kind for the pickers. */
+export function useTags() {
+  const { businessId } = useBusiness();
+  const query = useQuery({
+    queryKey: ["tags", businessId],
+    queryFn: () => tagsApi.list(businessId),
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const ofKind = (kind: TagKind): ConversationTag[] => (query.data ?? []).filter((tag) => tag.kind === kind);
+
+  return {
+    ...query,
+    issueTypes: ofKind("issue_type"),
+    tags: ofKind("tag"),
+    dispositions: ofKind("disposition"),
+  };
+}
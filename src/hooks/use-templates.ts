@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { broadcastsApi } from "@/lib/apiClient";
+
+/** The current business's approved WhatsApp templates (the broadcast list). */
+export function useTemplates() {
+  const { businessId } = useBusiness();
+  return useQuery({
+    queryKey: ["broadcast-config", businessId],
+    queryFn: () => broadcastsApi.getConfig(businessId),
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+    select: (config) => config.allowed_templates,
+  });
+}
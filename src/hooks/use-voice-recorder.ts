@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from "react";
+
+// WhatsApp voice notes are OGG/Opus. Firefox records that natively, Safari records
+// MP4/AAC (also accepted); Chrome only does WebM/Opus, which the backend remuxes.
+const PREFERRED_MIME_TYPES = ["audio/ogg;codecs=opus", "audio/mp4", "audio/webm;codecs=opus"];
+
+// Keeps recordings far below WhatsApp's 16 MB audio limit
+export const MAX_VOICE_NOTE_MS = 5 * 60 * 1000;
+
+const EXTENSIONS: Record<string, string> = { "audio/ogg": "ogg", "audio/mp4": "m4a", "audio/webm": "webm" };
+
+export const isVoiceRecordingSupported = () =>
+  typeof window !== "undefined" && "MediaRecorder" in window && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Records a voice note from the microphone. The file is handed to start()'s
+ * callback when the agent stops or the length limit is hit; cancel() drops it.
+ */
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const onCompleteRef = useRef<((file: File) => void) | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const cleanup = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = null;
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  // Release the microphone if the composer unmounts mid-recording
+  useEffect(() => () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const start = async (onComplete: (file: File) => void) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    chunksRef.current = [];
+    onCompleteRef.current = onComplete;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = () => {
+      const type = recorder.mimeType.split(";")[0] || "audio/webm";
+      const blob = new Blob(chunksRef.current, { type });
+      const file = new File([blob], `voice-note-${Date.now()}.${EXTENSIONS[type] ?? "webm"}`, { type });
+      if (chunksRef.current.length) onCompleteRef.current?.(file);
+      onCompleteRef.current = null;
+      cleanup();
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+    setElapsedMs(0);
+    const startedAt = Date.now();
+    timerRef.current = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_VOICE_NOTE_MS && recorder.state === "recording") recorder.stop();
+    }, 250);
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+  };
+
+  const cancel = () => {
+    onCompleteRef.current = null;
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    else cleanup();
+  };
+
+  return { isRecording, elapsedMs, start, stop, cancel };
+}
@@ -0,0 +1,63 @@
+import type { AiEvent, AiPause, AiPauseReason } from "./apiClient";
+import { normalizeUTC } from "./utils";
+
+// Bot/agent handoffs: why the bot was paused, when it takes back over, and
+// how the history reads in the thread. Paused conversations used to stay
+// paused until someone remembered to release them; the auto-resume timer
+// (run by the backend, restarted by agent activity) hands them back.
+
+export const AI_PAUSE_REASONS: Record<AiPauseReason, string> = {
+  agent_takeover: "Agent taking over",
+  customer_request: "Customer asked for a person",
+  sensitive_topic: "Sensitive topic",
+  bot_struggling: "Bot giving wrong answers",
+  other: "Other",
+};
+
+// Reasons only the backend sets
+const SYSTEM_PAUSE_REASONS: Record<string, string> = {
+  escalation: "Escalated by the bot",
+};
+
+export const AUTO_RESUME_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 30, label: "30 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: null, label: "Never" },
+];
+
+// Used for one-click pauses (Take Over, shortcut)
+export const DEFAULT_AI_PAUSE: AiPause = {
+  reason: "agent_takeover",
+  resume_after_minutes: 30,
+};
+
+export const pauseReasonLabel = (reason: string | null | undefined): string | null =>
+  reason ? AI_PAUSE_REASONS[reason as AiPauseReason] ?? SYSTEM_PAUSE_REASONS[reason] ?? reason : null;
+
+/** Milliseconds until the bot takes back over; null when it stays paused. */
+export function getAutoResumeIn(resumeAt: string | null | undefined, now = Date.now()): number | null {
+  if (!resumeAt) return null;
+  return new Date(normalizeUTC(resumeAt)).getTime() - now;
+}
+
+/** The banner text for a history entry. */
+export function describeAiEvent(event: AiEvent): string {
+  const actor = event.actor_name || "An agent";
+  const reason = pauseReasonLabel(event.reason);
+  switch (event.kind) {
+    case "paused":
+      return `${actor} paused the AI${reason ? ` · ${reason}` : ""}`;
+    case "resumed":
+      return `${actor} resumed the AI`;
+    case "auto_resumed":
+      return "AI resumed after agent inactivity";
+    case "escalated":
+      return `The bot handed the conversation to a human${reason ? ` · ${reason}` : ""}`;
+    case "released":
+      return `${actor} released the conversation back to the bot`;
+    default:
+      return "AI status changed";
+  }
+}
@@ -42,31 +42,6 @@ export interface APIResponse<T> {
   version?: string;
 }
 
-// Stats data types
-export interface AbandonedCartsStats {
-  today_count: number;
-  recovered_count: number;
-  revenue_recovered: number;
-}
-
-// Conversation types aligned with SaaS backend
-export interface ConversationSummary {
-  id: string;
-  phone: string;
-  preview: string;
-  status: string;
-  last_at: string | null;
-  ai_enabled?: boolean;
-  ai_paused_by?: string | null;
-  assigned_to?: string | null;
-  assigned_to_username?: string | null;
-}
-
-export interface ConversationsResponse {
-  data: ConversationSummary[];
-  next_cursor: string | null;
-}
-
 export interface TokenResponse {
   access_token: string;
   token_type: string;
@@ -79,90 +54,276 @@ export class ApiError extends Error {
   }
 }
 
-export async function apiRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const token = sessionStorage.getItem("auth_token");
+// Options understood by the request pipeline on top of the standard fetch options
+export interface RequestOptions extends RequestInit {
+  // Tenant for endpoints that read it from the x-business-id header (packing)
+  businessId?: string;
+  // false for unauthenticated calls (login): no Authorization header, no 401 redirect
+  auth?: boolean;
+  // Sent as Idempotency-Key on every attempt; makes a mutation safe to retry
+  idempotencyKey?: string;
+  // Overrides DEFAULT_RETRY; false disables retries for this call
+  retry?: Partial<RetryConfig> | false;
+  // Upload progress from 0 to 1; sends over XHR since fetch can't report it
+  onUploadProgress?: (fraction: number) => void;
+}
 
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-    ...options.headers,
-  };
+export interface RetryConfig {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
 
-  if (token) {
-    (headers as Record<string, string>)["Authorization"] = `Bearer ${token}`;
-  }
+export const DEFAULT_RETRY: RetryConfig = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
 
-  const url = `${API_BASE}${endpoint}`;
-  const method = (options.method ?? "GET").toUpperCase();
-  const isInsecure = url.startsWith("http://");
-
-  // Critical debugging for Mixed Content issues
-  if (isInsecure) {
-    console.error("[api] BLOCKED insecure request URL:", url);
-    console.error("[api] Called from:\n", new Error("Insecure API URL").stack);
-    logRequest({ url, method, isInsecure: true, error: "BLOCKED - insecure" });
-  } else {
-    debugLog("request", { url, method });
-  }
+export interface RequestContext {
+  endpoint: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  options: RequestOptions;
+  // 0 for the first try, incremented on every retry
+  attempt: number;
+}
 
-  try {
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
+// Each hook is optional. onRequest may mutate ctx.headers; onResponse may throw
+// to reject a response; retryDelay returns a delay in ms to retry, or undefined.
+export interface Interceptor {
+  name: string;
+  onRequest?: (ctx: RequestContext) => void;
+  onResponse?: (ctx: RequestContext, response: Response) => void | Promise<void>;
+  onError?: (ctx: RequestContext, error: unknown) => void;
+  retryDelay?: (ctx: RequestContext, error: unknown) => number | undefined;
+}
+
+const authInterceptor: Interceptor = {
+  name: "auth",
+  onRequest: (ctx) => {
+    if (ctx.options.auth === false) return;
+    const token = sessionStorage.getItem("auth_token");
+    if (token) ctx.headers["Authorization"] = `Bearer ${token}`;
+  },
+  onResponse: (ctx, response) => {
+    if (ctx.options.auth === false || response.status !== 401) return;
+    sessionStorage.removeItem("auth_token");
+    window.location.href = "/login";
+    throw new ApiError(401, "Unauthorized");
+  },
+};
+
+const tenantInterceptor: Interceptor = {
+  name: "tenant",
+  onRequest: (ctx) => {
+    if (ctx.options.businessId) ctx.headers["x-business-id"] = ctx.options.businessId;
+  },
+};
 
+const idempotencyInterceptor: Interceptor = {
+  name: "idempotency",
+  onRequest: (ctx) => {
+    if (ctx.options.idempotencyKey) ctx.headers["Idempotency-Key"] = ctx.options.idempotencyKey;
+  },
+};
+
+const loggingInterceptor: Interceptor = {
+  name: "logging",
+  onRequest: (ctx) => {
+    // Critical debugging for Mixed Content issues
+    if (ctx.url.startsWith("http://")) {
+      console.error("[api] BLOCKED insecure request URL:", ctx.url);
+      console.error("[api] Called from:\n", new Error("Insecure API URL").stack);
+      logRequest({ url: ctx.url, method: ctx.method, isInsecure: true, error: "BLOCKED - insecure" });
+    } else {
+      debugLog("request", { url: ctx.url, method: ctx.method, attempt: ctx.attempt });
+    }
+  },
+  onResponse: (ctx, response) => {
     logRequest({
-      url,
-      method,
-      isInsecure,
+      url: ctx.url,
+      method: ctx.method,
+      isInsecure: ctx.url.startsWith("http://"),
       status: response.status,
       redirected: response.redirected,
     });
+  },
+  onError: (ctx, error) => {
+    // HTTP errors were already logged with their status in onResponse
+    if (error instanceof ApiError) return;
+    logRequest({
+      url: ctx.url,
+      method: ctx.method,
+      isInsecure: ctx.url.startsWith("http://"),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  },
+};
 
-    if (response.status === 401) {
-      sessionStorage.removeItem("auth_token");
-      window.location.href = "/login";
-      throw new ApiError(401, "Unauthorized");
-    }
+const errorInterceptor: Interceptor = {
+  name: "errors",
+  onResponse: async (_ctx, response) => {
+    if (response.ok) return;
+    // Authenticated 401s never get here (auth interceptor redirects first), so a 401 is a failed login
+    const fallback =
+      response.status >= 500 ? "Server error" : response.status === 401 ? "Invalid credentials" : "Request failed";
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, errorData.detail || errorData.message || fallback);
+  },
+};
 
-    if (response.status >= 500) {
-      const errorData = await response.json().catch(() => ({ detail: "Server error" }));
-      throw new ApiError(response.status, errorData.detail || "Server error");
-    }
+const isRetryableError = (error: unknown) => {
+  // fetch rejects with TypeError when the network is down or the connection drops
+  if (error instanceof TypeError) return true;
+  return error instanceof ApiError && (error.status >= 500 || error.status === 408 || error.status === 429);
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ detail: "Request failed" }));
-      throw new ApiError(response.status, errorData.detail || "Request failed");
-    }
+// Reads are always safe to replay; mutations only when the server can dedupe them by Idempotency-Key
+const retryInterceptor: Interceptor = {
+  name: "retry",
+  retryDelay: (ctx, error) => {
+    if (ctx.options.retry === false || !isRetryableError(error)) return undefined;
+    if (ctx.method !== "GET" && !ctx.options.idempotencyKey) return undefined;
+
+    const config = { ...DEFAULT_RETRY, ...ctx.options.retry };
+    if (ctx.attempt >= config.retries) return undefined;
+
+    // Exponential backoff with full jitter so reconnecting clients don't retry in lockstep
+    const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** ctx.attempt);
+    return Math.round(Math.random() * ceiling);
+  },
+};
+
+// Order matters: interceptors run first to last on every hook
+const interceptors: Interceptor[] = [
+  authInterceptor,
+  tenantInterceptor,
+  idempotencyInterceptor,
+  loggingInterceptor,
+  errorInterceptor,
+  retryInterceptor,
+];
+
+export function addInterceptor(interceptor: Interceptor) {
+  interceptors.push(interceptor);
+  return () => {
+    const index = interceptors.indexOf(interceptor);
+    if (index !== -1) interceptors.splice(index, 1);
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const parseHeaders = (raw: string) => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach((line) => {
+    const index = line.indexOf(":");
+    if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  });
+  return headers;
+};
+
+// fetch() look-alike over XHR, so interceptors see an ordinary Response
+function xhrFetch(url: string, init: RequestInit, onUploadProgress: (fraction: number) => void): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    Object.entries(init.headers as Record<string, string>).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.responseType = "blob";
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onUploadProgress(e.loaded / e.total);
+    };
+    xhr.onload = () =>
+      resolve(
+        // Response() rejects a body on null-body statuses such as 204
+        new Response([204, 205, 304].includes(xhr.status) ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    // Same error type fetch uses for network failures, so retry/outbox logic treats it alike
+    xhr.onerror = () => reject(new TypeError("Network request failed"));
+    xhr.onabort = () => reject(new DOMException("The upload was aborted", "AbortError"));
+    init.signal?.addEventListener("abort", () => xhr.abort());
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+}
 
-    return response.json();
-  } catch (err) {
-    if (!(err instanceof ApiError)) {
-      const errMsg = err instanceof Error ? err.message : String(err);
-      logRequest({ url, method, isInsecure, error: errMsg });
+/**
+ * Runs a request through the interceptor pipeline and returns the raw Response.
+ * Use for non-JSON bodies (media blobs); everything else goes through apiRequest.
+ */
+export async function sendRequest(endpoint: string, options: RequestOptions = {}): Promise<Response> {
+  const {
+    businessId: _businessId,
+    auth: _auth,
+    idempotencyKey: _idempotencyKey,
+    retry: _retry,
+    onUploadProgress,
+    ...init
+  } = options;
+
+  const ctx: RequestContext = {
+    endpoint,
+    url: `${API_BASE}${endpoint}`,
+    method: (options.method ?? "GET").toUpperCase(),
+    headers: {},
+    options,
+    attempt: 0,
+  };
+
+  for (;;) {
+    ctx.headers = {
+      // Multipart bodies need the browser-generated boundary in their Content-Type
+      ...(init.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+      ...(init.headers as Record<string, string>),
+    };
+
+    try {
+      interceptors.forEach((i) => i.onRequest?.(ctx));
+      const response = onUploadProgress
+        ? await xhrFetch(ctx.url, { ...init, headers: ctx.headers }, onUploadProgress)
+        : await fetch(ctx.url, { ...init, headers: ctx.headers });
+      for (const i of interceptors) {
+        await i.onResponse?.(ctx, response);
+      }
+      return response;
+    } catch (err) {
+      interceptors.forEach((i) => i.onError?.(ctx, err));
+
+      let delay: number | undefined;
+      for (const i of interceptors) {
+        delay = i.retryDelay?.(ctx, err);
+        if (delay !== undefined) break;
+      }
+      if (delay === undefined) throw err;
+
+      await sleep(delay);
+      ctx.attempt++;
     }
-    throw err;
   }
 }
 
+export async function apiRequest<T>(
+  endpoint: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const response = await sendRequest(endpoint, options);
+  return response.json();
+}
+
 export async function login(
   username: string,
   password: string
 ): Promise<TokenResponse> {
-  const response = await fetch(`${API_BASE}/api/v1/auth/login`, {
+  const data = await apiRequest<TokenResponse>("/api/v1/auth/login", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    auth: false,
     body: JSON.stringify({ username, password }),
   });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ detail: "Invalid credentials" }));
-    throw new ApiError(response.status, errorData.detail || "Invalid credentials");
-  }
-
-  const data = await response.json();
   sessionStorage.setItem("auth_token", data.access_token);
 
   return data;
@@ -173,48 +334,3 @@ export async function switchTenant(targetId: string): Promise<TokenResponse> {
     method: "POST",
   });
 }
-
-export async function getConversations(
-  cursor?: string | null,
-  limit: number = 20,
-  status?: string
-): Promise<ConversationsResponse> {
-  const params = new URLSearchParams();
-  if (cursor) params.append("cursor", cursor);
-  params.append("limit", String(limit));
-  if (status) params.append("status", status);
-
-  const queryString = params.toString();
-  const endpoint = `/api/v1/conversations${queryString ? `?${queryString}` : ""}`;
-
-  // Fetch the wrapper and return only the inner data object
-  const response = await apiRequest<APIResponse<ConversationsResponse>>(endpoint);
-  return response.data;
-}
-
-// Broadcast Groups
-export interface BroadcastGroup {
-  _id: string;
-  name: string;
-  phone_numbers: string[];
-  created_at: string;
-}
-
-export interface BroadcastGroupCreate {
-  name: string;
-  phone_numbers: string[];
-}
-
-export async function getBroadcastGroups(): Promise<BroadcastGroup[]> {
-  const response = await apiRequest<APIResponse<{ groups: BroadcastGroup[] }>>("/api/v1/broadcasts/groups");
-  return response.data.groups;
-}
-
-export async function createBroadcastGroup(name: string, phones: string[]): Promise<BroadcastGroup> {
-  const response = await apiRequest<APIResponse<BroadcastGroup>>("/api/v1/broadcasts/groups", {
-    method: "POST",
-    body: JSON.stringify({ name, phone_numbers: phones }),
-  });
-  return response.data;
-}
-
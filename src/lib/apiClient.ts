@@ -0,0 +1,1282 @@
+import { z } from "zod";
+import { API_BASE, apiRequest, RequestOptions } from "./api";
+import { logRequest } from "./requestLogger";
+
+// Typed API client: every response is validated against a zod schema and
+// normalized here, once. Anything that does not match the contract surfaces
+// as a SchemaError (and shows up on the Debug page) instead of being guessed at.
+
+export class SchemaError extends Error {
+  constructor(
+    public endpoint: string,
+    public issues: z.ZodIssue[],
+    public payload: unknown
+  ) {
+    super(
+      `Unexpected response from ${endpoint}: ` +
+        issues.map((i) => `${i.path.join(".") || "(root)"} ${i.message}`).join("; ")
+    );
+    this.name = "SchemaError";
+  }
+}
+
+export function parseResponse<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  payload: unknown,
+  method: string = "GET"
+): z.output<S> {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    const error = new SchemaError(endpoint, result.error.issues, payload);
+    console.error("[apiClient]", error.message, payload);
+    logRequest({ url: `${API_BASE}${endpoint}`, method, isInsecure: false, error: error.message });
+    throw error;
+  }
+  return result.data;
+}
+
+export async function request<S extends z.ZodTypeAny>(
+  schema: S,
+  endpoint: string,
+  options: RequestOptions = {}
+): Promise<z.output<S>> {
+  const payload = await apiRequest<unknown>(endpoint, options);
+  return parseResponse(endpoint, schema, payload, (options.method ?? "GET").toUpperCase());
+}
+
+// Without strictNullChecks zod infers every key as optional, so schemas are
+// pinned to the interfaces below, which stay the source of truth for types
+export const contract = <T>(schema: z.ZodTypeAny) => schema as z.ZodType<T>;
+
+// Standard backend wrapper: { success, data, message?, version? }
+export const envelope = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    success: z.boolean().optional(),
+    data,
+    message: z.string().nullish(),
+    version: z.string().nullish(),
+  });
+
+export const nullableArray = <T extends z.ZodTypeAny>(item: T) =>
+  z.array(item).nullish().transform((v) => v ?? []);
+
+// Mutations whose payload we don't read
+const ackSchema = z
+  .object({ success: z.boolean().optional(), message: z.string().nullish() })
+  .passthrough();
+
+// ---------------------------------------------------------------------------
+// Conversations
+// ---------------------------------------------------------------------------
+
+export interface ConversationSummary {
+  id: string;
+  phone: string;
+  preview: string;
+  status: string;
+  last_at: string | null;
+  ai_enabled?: boolean;
+  ai_paused_by?: string | null;
+  // Why the bot is paused (see AiPauseReason); the backend also sets "escalation"
+  ai_pause_reason?: string | null;
+  // The bot takes back over at this time unless an agent is active before then
+  ai_resume_at?: string | null;
+  assigned_to?: string | null;
+  assigned_to_username?: string | null;
+  // Per agent: inbound messages after this agent's last-read marker
+  unread_count?: number;
+  last_read_at?: string | null;
+  // SLA deadlines from the business's targets; null once met (agent replied / resolved)
+  first_response_due_at?: string | null;
+  resolution_due_at?: string | null;
+  // Names from the business's tag list (see tagsApi)
+  issue_type?: string | null;
+  tags?: string[];
+  // Why the ticket was resolved; set by the resolving agent
+  disposition?: string | null;
+}
+
+export const conversationSummarySchema = contract<ConversationSummary>(
+  z.object({
+    id: z.string(),
+    phone: z.string(),
+    preview: z.string().nullish().transform((v) => v ?? ""),
+    status: z.string(),
+    last_at: z.string().nullable(),
+    ai_enabled: z.boolean().optional(),
+    ai_paused_by: z.string().nullish(),
+    ai_pause_reason: z.string().nullish(),
+    ai_resume_at: z.string().nullish(),
+    assigned_to: z.string().nullish(),
+    assigned_to_username: z.string().nullish(),
+    unread_count: z.number().optional(),
+    last_read_at: z.string().nullish(),
+    first_response_due_at: z.string().nullish(),
+    resolution_due_at: z.string().nullish(),
+    issue_type: z.string().nullish(),
+    tags: nullableArray(z.string()),
+    disposition: z.string().nullish(),
+  })
+);
+
+export interface ConversationsPage {
+  data: ConversationSummary[];
+  next_cursor: string | null;
+}
+
+const conversationsPageSchema = envelope(
+  contract<ConversationsPage>(
+    z.object({
+      data: z.array(conversationSummarySchema),
+      next_cursor: z.string().nullable(),
+    })
+  )
+);
+
+export type MessageStatus = "sending" | "sent" | "delivered" | "read" | "failed";
+
+export interface Message {
+  id?: string;
+  _id?: string;
+  text?: string;
+  content?: string;
+  sender: "user" | "agent" | "bot";
+  direction?: "inbound" | "outbound";
+  timestamp?: string;
+  created_at?: string;
+  image_media_id?: string;
+  // WhatsApp message type and media for non-text messages (audio, video, document...)
+  message_type?: string;
+  media_id?: string;
+  filename?: string;
+  mime_type?: string;
+  status?: MessageStatus;
+  // "note": internal note between agents, never sent to the customer
+  source?: "customer" | "bot" | "agent" | "system" | "broadcast" | "ai" | "note";
+  // Who wrote an internal note
+  author_name?: string;
+  // Bot pause/resume/handoff history entry, rendered as a banner
+  ai_event?: AiEvent;
+  // Why a reply failed to send (status === "failed"): outbox error or WhatsApp's error message
+  error?: string;
+  // Cloud API error code when WhatsApp rejected the message
+  error_code?: number | string;
+  // Still in the local outbox: never accepted by the backend
+  is_queued?: boolean;
+}
+
+// Roles and statuses the cockpit does not know yet are dropped rather than
+// failing the whole thread; sender is derived again below when that happens
+export const messageSchema = z
+  .object({
+    id: z.string().optional(),
+    _id: z.string().optional(),
+    text: z.string().nullish(),
+    content: z.string().nullish(),
+    body: z.string().nullish(),
+    sender: z.enum(["user", "agent", "bot"]).optional().catch(undefined),
+    direction: z.enum(["inbound", "outbound"]).optional().catch(undefined),
+    source: z.enum(["customer", "bot", "agent", "system", "broadcast", "ai"]).optional().catch(undefined),
+    timestamp: z.string().nullish(),
+    created_at: z.string().nullish(),
+    image_media_id: z.string().nullish(),
+    status: z.enum(["sending", "sent", "delivered", "read", "failed"]).optional().catch(undefined),
+    // Cloud API error for failed sends
+    error_code: z.union([z.number(), z.string()]).nullish(),
+    error_message: z.string().nullish(),
+  })
+  // Media and interactive payloads vary by WhatsApp message type; keep them as-is
+  .passthrough()
+  .transform((m): Message => {
+    // Derive sender from direction/source when the backend omits it
+    let sender = m.sender;
+    if (!sender) {
+      if (m.direction === "inbound") sender = "user";
+      else if (m.direction === "outbound") sender = m.source === "agent" ? "agent" : "bot";
+      else if (m.source === "customer") sender = "user";
+      else if (m.source === "agent") sender = "agent";
+      else sender = "bot";
+    }
+
+    return {
+      ...m,
+      sender,
+      text: m.text || m.content || m.body || "",
+      timestamp: m.timestamp || m.created_at || new Date().toISOString(),
+      error_code: m.error_code ?? undefined,
+      error: m.error_message ?? undefined,
+    };
+  });
+
+const threadSchema = envelope(z.object({ messages: z.array(messageSchema) }));
+
+const sendResultSchema = envelope(
+  z
+    .object({
+      ai_enabled: z.boolean().optional(),
+      // Auto-resume deadline, restarted by this reply
+      ai_resume_at: z.string().nullish(),
+    })
+    .passthrough()
+    .nullish()
+);
+
+export interface AbandonedCartsStats {
+  today_count: number;
+  recovered_count: number;
+  revenue_recovered: number;
+}
+
+export interface SlaStats {
+  // Open conversations currently past their deadline
+  first_response_breached: number;
+  resolution_breached: number;
+  // Last 7 days
+  avg_first_response_minutes: number | null;
+  first_response_met_pct: number | null;
+}
+
+// Outcomes of AI reply suggestions, last 7 days
+export interface SuggestionStats {
+  shown: number;
+  accepted: number;
+  edited: number;
+  discarded: number;
+}
+
+export interface ConversationStats {
+  open: number;
+  resolved: number;
+  triaged?: number;
+  total?: number;
+  abandoned_carts?: AbandonedCartsStats;
+  sla?: SlaStats;
+  suggestions?: SuggestionStats;
+}
+
+const conversationStatsSchema = contract<ConversationStats>(
+  z.object({
+    open: z.number(),
+    resolved: z.number(),
+    triaged: z.number().optional(),
+    total: z.number().optional(),
+    abandoned_carts: z
+      .object({
+        today_count: z.number(),
+        recovered_count: z.number(),
+        revenue_recovered: z.number(),
+      })
+      .optional(),
+    sla: z
+      .object({
+        first_response_breached: z.number(),
+        resolution_breached: z.number(),
+        avg_first_response_minutes: z.number().nullish().transform((v) => v ?? null),
+        first_response_met_pct: z.number().nullish().transform((v) => v ?? null),
+      })
+      .optional(),
+    suggestions: z
+      .object({
+        shown: z.number(),
+        accepted: z.number(),
+        edited: z.number(),
+        discarded: z.number(),
+      })
+      .optional(),
+  })
+);
+
+const statsSchema = envelope(z.object({ stats: conversationStatsSchema }));
+
+// Ticket queue filters, applied server-side so paging never skips matching tickets
+export interface ConversationFilters {
+  status?: "open" | "resolved";
+  // Agent user id, "me" (resolved from the token) or "unassigned"
+  assigned_to?: string;
+  ai_state?: "active" | "paused";
+  issue_type?: string;
+  // Last activity window, YYYY-MM-DD (inclusive)
+  from?: string;
+  to?: string;
+  // Last activity at least this many minutes ago, e.g. waiting > 30 min
+  waiting_minutes?: number;
+  unread?: boolean;
+  // Past a first-response or resolution deadline
+  sla_breached?: boolean;
+  tag?: string;
+  // oldest: longest-waiting first; newest: most recent activity first
+  sort?: "oldest" | "newest";
+}
+
+// Media an agent can attach to a reply (WhatsApp message types)
+export type OutgoingMediaType = "image" | "document" | "audio" | "video";
+
+export interface OutgoingMedia {
+  // Returned by uploadMedia
+  id: string;
+  type: OutgoingMediaType;
+  mime_type: string;
+  filename?: string;
+  // Audio recorded in the cockpit goes out as a voice note rather than an audio file
+  voice?: boolean;
+}
+
+const uploadResultSchema = envelope(z.object({ media_id: z.string() }));
+
+export interface Resolution {
+  // Required when the business has dispositions configured
+  disposition: string | null;
+  note?: string;
+}
+
+export interface ConversationTagging {
+  issue_type: string | null;
+  tags: string[];
+}
+
+export type SearchMatchField = "phone" | "name" | "order_number" | "message";
+
+export interface ConversationSearchResult {
+  conversation: ConversationSummary;
+  customer_name: string | null;
+  match_field: SearchMatchField;
+  // Matched text with surrounding context (message body, name, order number...)
+  snippet: string;
+  // Set when the match is a message, to jump to it in the thread
+  message_id: string | null;
+  message_at: string | null;
+}
+
+const searchResultSchema = contract<ConversationSearchResult>(
+  z.object({
+    conversation: conversationSummarySchema,
+    customer_name: z.string().nullish().transform((v) => v ?? null),
+    match_field: z.enum(["phone", "name", "order_number", "message"]),
+    snippet: z.string(),
+    message_id: z.string().nullish().transform((v) => v ?? null),
+    message_at: z.string().nullish().transform((v) => v ?? null),
+  })
+);
+
+// Agent-only note on a ticket; never sent to the customer
+export interface InternalNote {
+  id: string;
+  conversation_id: string;
+  author_id: string;
+  author_name: string;
+  text: string;
+  // user_ids of agents @mentioned in the text
+  mentions: string[];
+  created_at: string;
+}
+
+export const internalNoteSchema = contract<InternalNote>(
+  z.object({
+    id: z.string(),
+    conversation_id: z.string(),
+    author_id: z.string(),
+    author_name: z.string(),
+    text: z.string(),
+    mentions: nullableArray(z.string()),
+    created_at: z.string(),
+  })
+);
+
+// The reply the bot would have sent, offered to the agent on a paused conversation
+export interface AiSuggestion {
+  id: string;
+  conversation_id: string;
+  text: string;
+  // The customer message it answers
+  in_reply_to?: string | null;
+  created_at: string;
+}
+
+export const aiSuggestionSchema = contract<AiSuggestion>(
+  z.object({
+    id: z.string(),
+    conversation_id: z.string(),
+    text: z.string(),
+    in_reply_to: z.string().nullish(),
+    created_at: z.string(),
+  })
+);
+
+export type SuggestionOutcome = "accepted" | "edited" | "discarded";
+
+export type AiPauseReason = "agent_takeover" | "customer_request" | "sensitive_topic" | "bot_struggling" | "other";
+
+export interface AiPause {
+  reason: AiPauseReason;
+  // Resume the bot after this many minutes without agent activity; null keeps it paused
+  resume_after_minutes: number | null;
+}
+
+// One entry of a conversation's bot handoff history
+export interface AiEvent {
+  id: string;
+  conversation_id: string;
+  // auto_resumed: the inactivity timer ran out; escalated: the bot asked for a human
+  kind: "paused" | "resumed" | "auto_resumed" | "escalated" | "released";
+  actor_name?: string | null;
+  reason?: string | null;
+  created_at: string;
+}
+
+export const aiEventSchema = contract<AiEvent>(
+  z.object({
+    id: z.string(),
+    conversation_id: z.string(),
+    kind: z.enum(["paused", "resumed", "auto_resumed", "escalated", "released"]),
+    actor_name: z.string().nullish(),
+    reason: z.string().nullish(),
+    created_at: z.string(),
+  })
+);
+
+export const conversationsApi = {
+  list: async (
+    cursor?: string | null,
+    limit: number = 20,
+    filters: ConversationFilters = {}
+  ): Promise<ConversationsPage> => {
+    const params = new URLSearchParams();
+    if (cursor) params.append("cursor", cursor);
+    params.append("limit", String(limit));
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "" && value !== false) params.append(key, String(value));
+    }
+
+    const response = await request(conversationsPageSchema, `/api/v1/conversations?${params.toString()}`);
+    return response.data;
+  },
+
+  search: async (query: string, limit: number = 30): Promise<ConversationSearchResult[]> => {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await request(
+      envelope(z.object({ results: nullableArray(searchResultSchema) })),
+      `/api/v1/conversations/search?${params.toString()}`
+    );
+    return response.data.results;
+  },
+
+  // One conversation's summary, for opening a ticket that is not in the loaded queue
+  get: async (conversationId: string): Promise<ConversationSummary> => {
+    const response = await request(
+      envelope(z.object({ conversation: conversationSummarySchema })),
+      `/api/v1/conversations/${conversationId}/summary`
+    );
+    return response.data.conversation;
+  },
+
+  getMessages: async (conversationId: string): Promise<Message[]> => {
+    const response = await request(threadSchema, `/api/v1/conversations/${conversationId}`);
+    return response.data.messages;
+  },
+
+  getStats: async (): Promise<ConversationStats> => {
+    const response = await request(statsSchema, "/api/v1/conversations/stats");
+    return response.data.stats;
+  },
+
+  // One key per logical send: retries reuse it so the backend never delivers a reply twice.
+  // With media, message is the caption (ignored for audio)
+  send: async (
+    conversationId: string,
+    message: string,
+    idempotencyKey: string = crypto.randomUUID(),
+    media?: OutgoingMedia
+  ): Promise<{ aiEnabled?: boolean; aiResumeAt?: string | null }> => {
+    const response = await request(sendResultSchema, `/api/v1/conversations/${conversationId}/send`, {
+      method: "POST",
+      idempotencyKey,
+      body: JSON.stringify(media ? { message, media } : { message }),
+    });
+    return { aiEnabled: response.data?.ai_enabled, aiResumeAt: response.data?.ai_resume_at };
+  },
+
+  // For when the 24h customer-service window has closed and free-form replies are refused
+  sendTemplate: async (
+    conversationId: string,
+    templateName: string,
+    params: Record<string, unknown>,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/template`, {
+      method: "POST",
+      idempotencyKey,
+      body: JSON.stringify({ template_name: templateName, params }),
+    });
+  },
+
+  // Sends a message WhatsApp rejected again, as the same thread entry
+  resendMessage: async (
+    conversationId: string,
+    messageId: string,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/messages/${messageId}/resend`, {
+      method: "POST",
+      idempotencyKey,
+    });
+  },
+
+  // Stores the file with WhatsApp; the returned id is then referenced from send()
+  uploadMedia: async (
+    conversationId: string,
+    file: File,
+    onProgress?: (fraction: number) => void
+  ): Promise<string> => {
+    const body = new FormData();
+    body.append("file", file, file.name);
+    const response = await request(uploadResultSchema, `/api/v1/conversations/${conversationId}/media`, {
+      method: "POST",
+      body,
+      onUploadProgress: onProgress,
+    });
+    return response.data.media_id;
+  },
+
+  // null unassigns
+  assign: async (conversationId: string, userId: string | null): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/assign`, {
+      method: "POST",
+      body: JSON.stringify({ user_id: userId }),
+    });
+  },
+
+  resolve: async (conversationId: string, resolution: Resolution): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/resolve`, {
+      method: "PUT",
+      body: JSON.stringify(resolution),
+    });
+  },
+
+  // Runs the business's assignment rules over escalated tickets still waiting unassigned
+  autoAssign: async (): Promise<number> => {
+    const response = await request(
+      envelope(z.object({ assigned: z.number() })),
+      "/api/v1/conversations/auto-assign",
+      { method: "POST" }
+    );
+    return response.data.assigned;
+  },
+
+  reopen: async (conversationId: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/reopen`, { method: "PUT" });
+  },
+
+  updateTags: async (conversationId: string, tagging: ConversationTagging): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/tags`, {
+      method: "PUT",
+      body: JSON.stringify(tagging),
+    });
+  },
+
+  // Pausing records why, and optionally when the bot should take back over
+  setAi: async (conversationId: string, enabled: boolean, pause?: AiPause): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/ai`, {
+      method: "POST",
+      body: JSON.stringify(enabled || !pause ? { enabled } : { enabled, ...pause }),
+    });
+  },
+
+  getAiEvents: async (conversationId: string): Promise<AiEvent[]> => {
+    const response = await request(
+      envelope(z.object({ events: nullableArray(aiEventSchema) })),
+      `/api/v1/conversations/${conversationId}/ai-events`
+    );
+    return response.data.events;
+  },
+
+  release: async (conversationId: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/release`, { method: "POST" });
+  },
+
+  // Moves this agent's read marker to the latest message
+  markRead: async (conversationId: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/read`, { method: "POST" });
+  },
+
+  getUnreadTotal: async (): Promise<number> => {
+    const response = await request(envelope(z.object({ total: z.number() })), "/api/v1/conversations/unread");
+    return response.data.total;
+  },
+
+  // Values for {{Variable}} placeholders (store details, latest order) resolved for this customer
+  getPlaceholders: async (conversationId: string): Promise<Record<string, string>> => {
+    const response = await request(
+      envelope(z.object({ values: z.record(z.string()).nullish().transform((v) => v ?? {}) })),
+      `/api/v1/conversations/${conversationId}/placeholders`
+    );
+    return response.data.values;
+  },
+
+  // Latest suggestion for the conversation; null when the bot has nothing to add
+  getSuggestion: async (conversationId: string): Promise<AiSuggestion | null> => {
+    const response = await request(
+      envelope(z.object({ suggestion: aiSuggestionSchema.nullish() })),
+      `/api/v1/conversations/${conversationId}/suggestion`
+    );
+    return response.data.suggestion ?? null;
+  },
+
+  regenerateSuggestion: async (conversationId: string): Promise<AiSuggestion | null> => {
+    const response = await request(
+      envelope(z.object({ suggestion: aiSuggestionSchema.nullish() })),
+      `/api/v1/conversations/${conversationId}/suggestion`,
+      { method: "POST" }
+    );
+    return response.data.suggestion ?? null;
+  },
+
+  // Feeds the acceptance rate; final_text is what the agent actually sent
+  recordSuggestionOutcome: async (
+    conversationId: string,
+    suggestionId: string,
+    outcome: SuggestionOutcome,
+    finalText?: string
+  ): Promise<void> => {
+    await request(ackSchema, `/api/v1/conversations/${conversationId}/suggestion/${suggestionId}/outcome`, {
+      method: "POST",
+      body: JSON.stringify({ outcome, final_text: finalText }),
+    });
+  },
+
+  getNotes: async (conversationId: string): Promise<InternalNote[]> => {
+    const response = await request(
+      envelope(z.object({ notes: nullableArray(internalNoteSchema) })),
+      `/api/v1/conversations/${conversationId}/notes`
+    );
+    return response.data.notes;
+  },
+
+  addNote: async (conversationId: string, text: string, mentions: string[]): Promise<InternalNote> => {
+    const response = await request(
+      envelope(z.object({ note: internalNoteSchema })),
+      `/api/v1/conversations/${conversationId}/notes`,
+      { method: "POST", body: JSON.stringify({ text, mentions }) }
+    );
+    return response.data.note;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Customers
+// ---------------------------------------------------------------------------
+
+export interface CustomerConversation {
+  id: string;
+  status: string;
+  last_at: string | null;
+  preview: string;
+}
+
+export interface CustomerProfile {
+  phone: string;
+  name: string | null;
+  conversations: CustomerConversation[];
+  message_counts: { inbound: number; outbound: number };
+}
+
+const customerProfileSchema = contract<CustomerProfile>(
+  z.object({
+    phone: z.string(),
+    name: z.string().nullish().transform((v) => v ?? null),
+    conversations: nullableArray(
+      z.object({
+        id: z.string(),
+        status: z.string(),
+        last_at: z.string().nullable(),
+        preview: z.string().nullish().transform((v) => v ?? ""),
+      })
+    ),
+    message_counts: z
+      .object({ inbound: z.number(), outbound: z.number() })
+      .nullish()
+      .transform((v) => v ?? { inbound: 0, outbound: 0 }),
+  })
+);
+
+export const customersApi = {
+  getProfile: async (phone: string): Promise<CustomerProfile> => {
+    const response = await request(envelope(customerProfileSchema), `/api/v1/customers/${encodeURIComponent(phone)}`);
+    return response.data;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Agents
+// ---------------------------------------------------------------------------
+
+export type AgentStatus = "online" | "away" | "offline";
+
+export interface Agent {
+  user_id: string;
+  username: string;
+  // Availability for automatic assignment
+  status?: AgentStatus;
+  // Open tickets currently assigned to the agent
+  open_tickets?: number;
+  // Issue types / tags the agent handles when skill routing is on
+  skills?: string[];
+  // Overrides the business default when set
+  max_concurrent?: number | null;
+}
+
+export interface AgentRouting {
+  skills: string[];
+  max_concurrent: number | null;
+}
+
+const agentSchema = contract<Agent>(
+  z.object({
+    user_id: z.string(),
+    username: z.string(),
+    status: z.enum(["online", "away", "offline"]).optional(),
+    open_tickets: z.number().optional(),
+    skills: nullableArray(z.string()),
+    max_concurrent: z.number().nullish(),
+  })
+);
+
+const agentsSchema = envelope(z.object({ agents: z.array(agentSchema) }));
+
+export const agentsApi = {
+  list: async (): Promise<Agent[]> => {
+    const response = await request(agentsSchema, "/api/v1/auth/agents");
+    return response.data.agents;
+  },
+
+  // The signed-in agent's own availability
+  setStatus: async (status: AgentStatus): Promise<void> => {
+    await request(ackSchema, "/api/v1/auth/agents/me/status", {
+      method: "PUT",
+      body: JSON.stringify({ status }),
+    });
+  },
+
+  updateRouting: async (userId: string, routing: AgentRouting): Promise<void> => {
+    await request(ackSchema, `/api/v1/auth/agents/${userId}/routing`, {
+      method: "PUT",
+      body: JSON.stringify(routing),
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Broadcasts
+// ---------------------------------------------------------------------------
+
+export interface Template {
+  id: string;
+  name: string;
+  header?: string | null;
+  body?: string | null;
+  version?: string | null;
+  last_verified?: string | null;
+}
+
+// Older tenants return bare template ids; turn "festival_sale_alert" into { id, name: "Festival Sale Alert" }
+const templateSchema = contract<Template>(
+  z.union([
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      header: z.string().nullish(),
+      body: z.string().nullish(),
+      version: z.string().nullish(),
+      last_verified: z.string().nullish(),
+    }),
+    z.string().transform((id) => ({
+      id,
+      name: id.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase()),
+    })),
+  ])
+);
+
+export interface Audience {
+  id: string;
+  name: string;
+  count?: number;
+}
+
+const audienceSchema = contract<Audience>(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    count: z.number().optional(),
+  })
+);
+
+export interface BroadcastConfig {
+  allowed_templates: Template[];
+  audiences: Audience[];
+}
+
+const broadcastConfigSchema = contract<BroadcastConfig>(
+  envelope(
+    z.object({
+      templates: z.array(templateSchema).optional(),
+      allowed_templates: z.array(templateSchema).optional(),
+      audiences: nullableArray(audienceSchema),
+    })
+  ).transform((r) => ({
+    allowed_templates: r.data.templates ?? r.data.allowed_templates ?? [],
+    audiences: r.data.audiences,
+  }))
+);
+
+export interface BroadcastJob {
+  id: string;
+  created_at?: string | null;
+  template_name?: string | null;
+  audience_name?: string | null;
+  message?: string | null;
+  sent_count?: number | null;
+  delivered_count?: number | null;
+  read_count?: number | null;
+  failed_count?: number | null;
+  total_recipients?: number | null;
+  status?: string | null;
+}
+
+const broadcastJobSchema = contract<BroadcastJob>(
+  z.object({
+    id: z.string(),
+    created_at: z.string().nullish(),
+    template_name: z.string().nullish(),
+    audience_name: z.string().nullish(),
+    message: z.string().nullish(),
+    sent_count: z.number().nullish(),
+    delivered_count: z.number().nullish(),
+    read_count: z.number().nullish(),
+    failed_count: z.number().nullish(),
+    total_recipients: z.number().nullish(),
+    status: z.string().nullish(),
+  })
+);
+
+// History comes back as a flat list, a [jobs, pagination] tuple, or { jobs, pagination }
+const broadcastHistorySchema = envelope(
+  contract<BroadcastJob[]>(
+    z.union([
+      z.tuple([z.array(broadcastJobSchema), z.unknown()]).transform(([jobs]) => jobs),
+      z.array(broadcastJobSchema),
+      z.object({ jobs: z.array(broadcastJobSchema) }).transform((d) => d.jobs),
+    ])
+  )
+);
+
+export interface BroadcastResult {
+  sent: number;
+  failed: number;
+  job_id?: string | null;
+}
+
+const broadcastResultBodySchema = contract<BroadcastResult>(
+  z.object({
+    sent: z.number(),
+    failed: z.number(),
+    job_id: z.string().nullish(),
+  })
+);
+
+const broadcastResultSchema = z.union([
+  envelope(broadcastResultBodySchema).transform((r) => r.data),
+  broadcastResultBodySchema,
+]);
+
+export interface BroadcastSendRequest {
+  business_id: string;
+  template_name: string;
+  audience_type: string;
+  params: Record<string, unknown>;
+  is_test?: boolean;
+  test_phone?: string;
+}
+
+export interface BroadcastGroup {
+  _id: string;
+  name: string;
+  phone_numbers: string[];
+  created_at: string;
+}
+
+export interface BroadcastGroupCreate {
+  name: string;
+  phone_numbers: string[];
+}
+
+const broadcastGroupSchema = contract<BroadcastGroup>(
+  z.object({
+    _id: z.string(),
+    name: z.string(),
+    phone_numbers: z.array(z.string()),
+    created_at: z.string(),
+  })
+);
+
+export const broadcastsApi = {
+  getConfig: (businessId: string): Promise<BroadcastConfig> =>
+    request(broadcastConfigSchema, `/api/v1/broadcasts/config?business_id=${businessId}`),
+
+  getHistory: async (businessId: string): Promise<BroadcastJob[]> => {
+    const response = await request(broadcastHistorySchema, `/api/v1/broadcasts/history?business_id=${businessId}`);
+    return response.data;
+  },
+
+  send: (payload: BroadcastSendRequest, idempotencyKey: string = crypto.randomUUID()): Promise<BroadcastResult> =>
+    request(broadcastResultSchema, "/api/v1/broadcasts/send", {
+      method: "POST",
+      idempotencyKey,
+      body: JSON.stringify(payload),
+    }),
+
+  getGroups: async (): Promise<BroadcastGroup[]> => {
+    const response = await request(
+      envelope(z.object({ groups: z.array(broadcastGroupSchema) })),
+      "/api/v1/broadcasts/groups"
+    );
+    return response.data.groups;
+  },
+
+  createGroup: async (name: string, phones: string[]): Promise<BroadcastGroup> => {
+    const body: BroadcastGroupCreate = { name, phone_numbers: phones };
+    const response = await request(envelope(broadcastGroupSchema), "/api/v1/broadcasts/groups", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    return response.data;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// AI strings & knowledge base
+// ---------------------------------------------------------------------------
+
+export interface StringItem {
+  key: string;
+  value: string;
+}
+
+const stringItemSchema = contract<StringItem>(
+  z.object({
+    key: z.string(),
+    value: z.string(),
+  })
+);
+
+export interface KnowledgeEntry {
+  value: string;
+  triggers: string[];
+  enabled: boolean;
+}
+
+export interface KnowledgeBaseConfig {
+  social_media: Record<string, KnowledgeEntry>;
+  policies: Record<string, KnowledgeEntry>;
+  locations: { store_address: string; operating_hours: string };
+}
+
+const knowledgeEntrySchema = z.object({
+  value: z.string(),
+  triggers: nullableArray(z.string()),
+  enabled: z.boolean(),
+});
+
+const knowledgeBaseSchema = contract<KnowledgeBaseConfig>(
+  z.object({
+    social_media: z.record(knowledgeEntrySchema),
+    policies: z.record(knowledgeEntrySchema),
+    locations: z.object({
+      store_address: z.string(),
+      operating_hours: z.string(),
+    }),
+  })
+);
+
+export const stringsApi = {
+  list: async (): Promise<StringItem[]> => {
+    const response = await request(
+      envelope(z.object({ strings: nullableArray(stringItemSchema) })),
+      "/api/v1/admin/strings"
+    );
+    return response.data.strings;
+  },
+
+  save: async (strings: StringItem[]): Promise<void> => {
+    await request(ackSchema, "/api/v1/admin/strings", {
+      method: "PUT",
+      body: JSON.stringify({ strings }),
+    });
+  },
+};
+
+export const knowledgeBaseApi = {
+  // null when the business has no knowledge base yet
+  get: async (businessId: string): Promise<KnowledgeBaseConfig | null> => {
+    const response = await request(envelope(knowledgeBaseSchema.nullable()), `/api/v1/knowledge-base/${businessId}`);
+    return response.data;
+  },
+
+  save: async (businessId: string, config: KnowledgeBaseConfig): Promise<void> => {
+    await request(ackSchema, `/api/v1/knowledge-base/${businessId}`, {
+      method: "PATCH",
+      body: JSON.stringify(config),
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Saved replies
+// ---------------------------------------------------------------------------
+
+export interface SavedReply {
+  id: string;
+  // Typed after "/" in the message box, e.g. "refund"
+  shortcut: string;
+  title: string;
+  body: string;
+  updated_at?: string | null;
+}
+
+export type SavedReplyInput = Omit<SavedReply, "id" | "updated_at">;
+
+const savedReplySchema = contract<SavedReply>(
+  z.object({
+    id: z.string(),
+    shortcut: z.string(),
+    title: z.string(),
+    body: z.string(),
+    updated_at: z.string().nullish(),
+  })
+);
+
+export const savedRepliesApi = {
+  list: async (businessId: string): Promise<SavedReply[]> => {
+    const response = await request(
+      envelope(z.object({ replies: nullableArray(savedReplySchema) })),
+      `/api/v1/saved-replies?business_id=${businessId}`
+    );
+    return response.data.replies;
+  },
+
+  create: async (businessId: string, reply: SavedReplyInput): Promise<SavedReply> => {
+    const response = await request(envelope(savedReplySchema), `/api/v1/saved-replies?business_id=${businessId}`, {
+      method: "POST",
+      body: JSON.stringify(reply),
+    });
+    return response.data;
+  },
+
+  update: async (businessId: string, id: string, reply: SavedReplyInput): Promise<SavedReply> => {
+    const response = await request(
+      envelope(savedReplySchema),
+      `/api/v1/saved-replies/${id}?business_id=${businessId}`,
+      { method: "PUT", body: JSON.stringify(reply) }
+    );
+    return response.data;
+  },
+
+  remove: async (businessId: string, id: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/saved-replies/${id}?business_id=${businessId}`, { method: "DELETE" });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Tags
+// ---------------------------------------------------------------------------
+
+// Per-business taxonomy for tickets: one issue type while handling, any number
+// of free tags, and one disposition when resolving. Reporting groups by name.
+export type TagKind = "issue_type" | "tag" | "disposition";
+
+export interface ConversationTag {
+  id: string;
+  kind: TagKind;
+  name: string;
+}
+
+export type ConversationTagInput = Omit<ConversationTag, "id">;
+
+const conversationTagSchema = contract<ConversationTag>(
+  z.object({
+    id: z.string(),
+    kind: z.enum(["issue_type", "tag", "disposition"]),
+    name: z.string(),
+  })
+);
+
+export const tagsApi = {
+  list: async (businessId: string): Promise<ConversationTag[]> => {
+    const response = await request(
+      envelope(z.object({ tags: nullableArray(conversationTagSchema) })),
+      `/api/v1/tags?business_id=${businessId}`
+    );
+    return response.data.tags;
+  },
+
+  create: async (businessId: string, tag: ConversationTagInput): Promise<ConversationTag> => {
+    const response = await request(envelope(conversationTagSchema), `/api/v1/tags?business_id=${businessId}`, {
+      method: "POST",
+      body: JSON.stringify(tag),
+    });
+    return response.data;
+  },
+
+  // Renames are applied to tickets already carrying the tag by the backend
+  update: async (businessId: string, id: string, tag: ConversationTagInput): Promise<ConversationTag> => {
+    const response = await request(envelope(conversationTagSchema), `/api/v1/tags/${id}?business_id=${businessId}`, {
+      method: "PUT",
+      body: JSON.stringify(tag),
+    });
+    return response.data;
+  },
+
+  remove: async (businessId: string, id: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/tags/${id}?business_id=${businessId}`, { method: "DELETE" });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Business config (WhatsApp menus)
+// ---------------------------------------------------------------------------
+
+export interface GreetingMenuItem {
+  id: string;
+  title: string;
+}
+
+export interface ShopifyAction {
+  type: "collection" | "tag";
+  value: string;
+}
+
+export interface ShopCategory {
+  id: string;
+  title: string;
+  shopify_action: ShopifyAction;
+}
+
+// Targets in minutes; the backend derives each conversation's due dates from them
+export interface SlaConfig {
+  first_response_minutes: number;
+  resolution_minutes: number;
+}
+
+// How escalated (human_needed) conversations are handed to agents. The backend
+// applies these when a conversation escalates.
+export type AssignmentStrategy = "manual" | "round_robin" | "least_open";
+
+export interface AssignmentConfig {
+  strategy: AssignmentStrategy;
+  // Only route to agents whose skills include the ticket's issue type or one of its tags
+  skill_routing: boolean;
+  // Route to away agents when nobody eligible is online
+  fallback_to_away: boolean;
+  // Default cap on open tickets per agent
+  max_concurrent: number;
+}
+
+export interface BusinessConfig {
+  whatsapp_greeting_menu: GreetingMenuItem[];
+  whatsapp_shop_categories: ShopCategory[];
+  sla?: SlaConfig | null;
+  assignment?: AssignmentConfig | null;
+  [key: string]: unknown;
+}
+
+// Passthrough: the whole document is PUT back, so unknown keys must survive the round trip
+const businessConfigSchema = contract<BusinessConfig>(
+  z
+    .object({
+      whatsapp_greeting_menu: nullableArray(
+        z.object({
+          id: z.string(),
+          title: z.string(),
+        })
+      ),
+      whatsapp_shop_categories: nullableArray(
+        z.object({
+          id: z.string(),
+          title: z.string(),
+          shopify_action: z.object({
+            type: z.enum(["collection", "tag"]),
+            value: z.string(),
+          }),
+        })
+      ),
+      sla: z
+        .object({
+          first_response_minutes: z.number(),
+          resolution_minutes: z.number(),
+        })
+        .nullish(),
+      assignment: z
+        .object({
+          strategy: z.enum(["manual", "round_robin", "least_open"]),
+          skill_routing: z.boolean(),
+          fallback_to_away: z.boolean(),
+          max_concurrent: z.number(),
+        })
+        .nullish(),
+    })
+    .passthrough()
+);
+
+export const businessConfigApi = {
+  get: async (businessId: string): Promise<BusinessConfig> => {
+    const response = await request(envelope(businessConfigSchema), `/api/v1/admin/business-config/${businessId}`);
+    return response.data;
+  },
+
+  save: async (businessId: string, config: BusinessConfig): Promise<void> => {
+    await request(ackSchema, `/api/v1/admin/business-config/${businessId}`, {
+      method: "PUT",
+      body: JSON.stringify(config),
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Packing admin (order endpoints live in packingApi)
+// ---------------------------------------------------------------------------
+
+export interface PackerPerformance {
+  name: string;
+  count: number;
+  last_active?: string | null;
+}
+
+export const packerPerformanceListSchema = nullableArray(
+  contract<PackerPerformance>(
+    z.object({
+      name: z.string(),
+      count: z.number().nullish().transform((v) => v ?? 0),
+      last_active: z.string().nullish(),
+    })
+  )
+);
+
+export const adminApi = {
+  getPackerPerformance: async (): Promise<PackerPerformance[]> => {
+    const response = await request(
+      envelope(z.object({ metrics: packerPerformanceListSchema })),
+      "/api/v1/admin/packer-performance"
+    );
+    return response.data.metrics;
+  },
+
+  addPacker: async (name: string): Promise<void> => {
+    await request(ackSchema, "/api/v1/admin/packers", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  removePacker: async (name: string): Promise<void> => {
+    await request(ackSchema, `/api/v1/admin/packers/${encodeURIComponent(name)}`, { method: "DELETE" });
+  },
+};
@@ -0,0 +1,53 @@
+import type { Agent, AgentStatus, AssignmentConfig, AssignmentStrategy } from "./apiClient";
+
+// Automatic assignment of escalated tickets. The backend picks the agent when a
+// conversation escalates; the cockpit configures the rules and shows who is
+// currently eligible so supervisors can see why tickets are (not) moving.
+
+// Used when the business has not configured assignment yet
+export const DEFAULT_ASSIGNMENT: AssignmentConfig = {
+  strategy: "manual",
+  skill_routing: false,
+  fallback_to_away: false,
+  max_concurrent: 5,
+};
+
+export const ASSIGNMENT_STRATEGIES: Record<AssignmentStrategy, { label: string; description: string }> = {
+  manual: {
+    label: "Manual",
+    description: "Escalations wait in the queue until someone picks them up.",
+  },
+  round_robin: {
+    label: "Round-robin",
+    description: "Each escalation goes to the next eligible agent in turn.",
+  },
+  least_open: {
+    label: "Least open tickets",
+    description: "Each escalation goes to the eligible agent with the fewest open tickets.",
+  },
+};
+
+export const AGENT_STATUS_LABELS: Record<AgentStatus, string> = {
+  online: "Online",
+  away: "Away",
+  offline: "Offline",
+};
+
+export const AGENT_STATUS_DOT: Record<AgentStatus, string> = {
+  online: "bg-emerald-500",
+  away: "bg-amber-500",
+  offline: "bg-zinc-400",
+};
+
+export const agentCapacity = (agent: Agent, config: AssignmentConfig) =>
+  agent.max_concurrent ?? config.max_concurrent;
+
+/** Why the agent would be skipped for the next escalation, or null if they can take it. Skills aside. */
+export function getIneligibleReason(agent: Agent, config: AssignmentConfig): string | null {
+  const status = agent.status ?? "offline";
+  if (status === "offline") return "Offline";
+  if (status === "away" && !config.fallback_to_away) return "Away";
+  const capacity = agentCapacity(agent, config);
+  if ((agent.open_tickets ?? 0) >= capacity) return `At capacity (${agent.open_tickets}/${capacity})`;
+  return null;
+}
@@ -0,0 +1,71 @@
+import type { OutgoingMediaType } from "./apiClient";
+
+// WhatsApp Cloud API media limits. Files outside these are rejected by Meta
+// after upload, so check them before the agent waits on a progress bar.
+
+interface MediaLimit {
+  maxBytes: number;
+  mimeTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+export const MEDIA_LIMITS: Record<OutgoingMediaType, MediaLimit> = {
+  image: { maxBytes: 5 * MB, mimeTypes: ["image/jpeg", "image/png"] },
+  video: { maxBytes: 16 * MB, mimeTypes: ["video/mp4", "video/3gpp"] },
+  audio: {
+    maxBytes: 16 * MB,
+    mimeTypes: ["audio/aac", "audio/mp4", "audio/mpeg", "audio/amr", "audio/ogg"],
+  },
+  document: {
+    maxBytes: 100 * MB,
+    mimeTypes: [
+      "application/pdf",
+      "text/plain",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+};
+
+// For the file picker's accept attribute
+export const ACCEPTED_MIME_TYPES = Object.values(MEDIA_LIMITS)
+  .flatMap((limit) => limit.mimeTypes)
+  .join(",");
+
+// WhatsApp shows no caption on audio
+export const supportsCaption = (type: OutgoingMediaType) => type !== "audio";
+
+const baseMimeType = (mime: string) => mime.split(";")[0].trim().toLowerCase();
+
+export function getMediaType(mime: string): OutgoingMediaType | null {
+  const base = baseMimeType(mime);
+  const entry = Object.entries(MEDIA_LIMITS).find(([, limit]) => limit.mimeTypes.includes(base));
+  return entry ? (entry[0] as OutgoingMediaType) : null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+/** Returns why WhatsApp would reject the file, or null if it can be sent. */
+export function validateAttachment(file: File): string | null {
+  const type = getMediaType(file.type);
+  if (!type) {
+    return `${file.name}: ${file.type || "this file type"} can't be sent on WhatsApp`;
+  }
+  const { maxBytes } = MEDIA_LIMITS[type];
+  if (file.size > maxBytes) {
+    return `${file.name} is ${formatFileSize(file.size)}; WhatsApp allows up to ${formatFileSize(maxBytes)} for ${type}s`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  return null;
+}
@@ -0,0 +1,112 @@
+import { conversationsApi, ConversationSummary, Resolution } from "./apiClient";
+
+// Queue-wide actions on many tickets at once. Each ticket goes through the
+// same per-conversation endpoint as a single action, a few at a time, so one
+// failure doesn't sink the batch and the agent sees progress as it runs.
+
+export type BulkAction =
+  | { kind: "assign"; userId: string; username?: string }
+  | { kind: "resolve"; resolution: Resolution }
+  | { kind: "enable_ai" }
+  | { kind: "tag"; tag: string };
+
+const CONCURRENCY = 4;
+
+export function describeBulkAction(action: BulkAction, count: number): string {
+  const tickets = `${count} ticket${count === 1 ? "" : "s"}`;
+  switch (action.kind) {
+    case "assign":
+      return `Assigned ${tickets} to ${action.username ?? "agent"}`;
+    case "resolve":
+      return `Resolved ${tickets}`;
+    case "enable_ai":
+      return `Handed ${tickets} back to the AI`;
+    case "tag":
+      return `Tagged ${tickets} "${action.tag}"`;
+  }
+}
+
+/** Local changes to show straight away, before the server confirms. */
+export function bulkActionPatch(conv: ConversationSummary, action: BulkAction): Partial<ConversationSummary> {
+  switch (action.kind) {
+    case "assign":
+      return { assigned_to: action.userId, assigned_to_username: action.username ?? null };
+    case "resolve":
+      return {
+        status: "resolved",
+        disposition: action.resolution.disposition,
+        first_response_due_at: null,
+        resolution_due_at: null,
+      };
+    case "enable_ai":
+      return { ai_enabled: true, ai_paused_by: null };
+    case "tag":
+      return { tags: conv.tags?.includes(action.tag) ? conv.tags : [...(conv.tags ?? []), action.tag] };
+  }
+}
+
+export function applyBulkAction(conv: ConversationSummary, action: BulkAction): Promise<void> {
+  switch (action.kind) {
+    case "assign":
+      return conversationsApi.assign(conv.id, action.userId);
+    case "resolve":
+      return conversationsApi.resolve(conv.id, action.resolution);
+    case "enable_ai":
+      return conversationsApi.setAi(conv.id, true);
+    case "tag":
+      return conversationsApi.updateTags(conv.id, {
+        issue_type: conv.issue_type ?? null,
+        tags: bulkActionPatch(conv, action).tags,
+      });
+  }
+}
+
+/** Puts a ticket back the way it was before the action, from its snapshot. */
+export function undoBulkAction(previous: ConversationSummary, action: BulkAction): Promise<void> {
+  switch (action.kind) {
+    case "assign":
+      return conversationsApi.assign(previous.id, previous.assigned_to ?? null);
+    case "resolve":
+      return previous.status === "resolved" ? Promise.resolve() : conversationsApi.reopen(previous.id);
+    case "enable_ai":
+      return previous.ai_enabled === false || previous.ai_paused_by != null
+        ? conversationsApi.setAi(previous.id, false)
+        : Promise.resolve();
+    case "tag":
+      return conversationsApi.updateTags(previous.id, {
+        issue_type: previous.issue_type ?? null,
+        tags: previous.tags ?? [],
+      });
+  }
+}
+
+/**
+ * Runs task over every item with limited concurrency. Resolves with the items
+ * whose task failed; never rejects.
+ */
+export async function runInBatches<T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  onProgress?: (done: number, total: number) => void
+): Promise<T[]> {
+  const failed: T[] = [];
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        console.warn("[Bulk] Action failed:", error);
+        failed.push(item);
+      }
+      done++;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+  return failed;
+}
@@ -0,0 +1,5 @@
+// Tenants an agent can switch between
+export const BUSINESSES = [
+  { id: "feelori", name: "Feelori" },
+  { id: "goldencollections", name: "Golden Collections" },
+];
@@ -0,0 +1,59 @@
+// Commands for the Ctrl+K palette. Pages register what applies while they are
+// mounted (ticket actions only while a conversation is open), and the same
+// ids back the single-key shortcuts so both paths do exactly the same thing.
+
+export interface Command {
+  id: string;
+  label: string;
+  // Palette section, e.g. "Conversation"
+  group: string;
+  // Single-key shortcut, shown next to the command
+  shortcut?: string;
+  // Extra words the palette matches on
+  keywords?: string[];
+  run: () => void;
+}
+
+type Listener = () => void;
+
+const registry = new Map<string, Command>();
+const listeners = new Set<Listener>();
+
+const emit = () => listeners.forEach((fn) => fn());
+
+export function registerCommands(commands: Command[]): () => void {
+  commands.forEach((command) => registry.set(command.id, command));
+  emit();
+  return () => {
+    // Only remove our own entries; a newer registration may have replaced them
+    commands.forEach((command) => {
+      if (registry.get(command.id) === command) registry.delete(command.id);
+    });
+    emit();
+  };
+}
+
+export const getCommands = (): Command[] => Array.from(registry.values());
+
+/** Runs a registered command; false if nothing is registered under the id. */
+export function runCommand(id: string): boolean {
+  const command = registry.get(id);
+  command?.run();
+  return !!command;
+}
+
+export function subscribeCommands(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** True when a keystroke belongs to a text field or an open overlay rather than a shortcut. */
+export function shouldIgnoreHotkey(event: KeyboardEvent): boolean {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return true;
+  const target = event.target as HTMLElement | null;
+  if (!target) return false;
+  if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  return !!target.closest('[role="dialog"], [role="menu"], [role="listbox"]');
+}
@@ -0,0 +1,78 @@
+import type { Message, MessageStatus } from "./apiClient";
+import { getMessageKey } from "./whatsappMessages";
+
+// Outbound message status as WhatsApp reports it (sent → delivered → read,
+// or failed with a Cloud API error code). Status webhooks can arrive out of
+// order, so a late "delivered" never downgrades a message already read.
+
+const STATUS_RANK: Record<MessageStatus, number> = {
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  // Meta can still fail a message after accepting it
+  failed: 4,
+};
+
+export interface StatusUpdate {
+  status: MessageStatus;
+  error_code?: number | string | null;
+  error?: string | null;
+}
+
+/** The message with the update applied, or the same object when it would move backwards. */
+export function applyStatusUpdate(message: Message, update: StatusUpdate): Message {
+  if (message.status && STATUS_RANK[update.status] <= STATUS_RANK[message.status]) return message;
+  return {
+    ...message,
+    status: update.status,
+    error_code: update.status === "failed" ? update.error_code ?? undefined : undefined,
+    error: update.status === "failed" ? update.error ?? undefined : undefined,
+  };
+}
+
+/** Status events name the message by our id or by its WhatsApp id. */
+export const isSameMessage = (message: Message, messageId: string) =>
+  message.id === messageId || message._id === messageId || getMessageKey(message) === messageId;
+
+// Cloud API errors agents actually run into, in words they can act on
+const DELIVERY_ERRORS: Record<string, { reason: string; canResend: boolean }> = {
+  "131047": { reason: "More than 24 hours since the customer's last message. Send a template instead.", canResend: false },
+  "470": { reason: "More than 24 hours since the customer's last message. Send a template instead.", canResend: false },
+  "131026": { reason: "The number can't receive this message (not on WhatsApp, old app version or blocked us).", canResend: false },
+  "131049": { reason: "Meta held back this marketing message to protect the customer's experience.", canResend: false },
+  "131050": { reason: "The customer stopped marketing messages from this business.", canResend: false },
+  "131021": { reason: "Sender and recipient are the same number.", canResend: false },
+  "131051": { reason: "Unsupported message type.", canResend: false },
+  "131052": { reason: "The customer's media could not be downloaded.", canResend: true },
+  "131053": { reason: "The media could not be uploaded to WhatsApp. Check its size and format.", canResend: true },
+  "131000": { reason: "WhatsApp had an internal error.", canResend: true },
+  "131016": { reason: "WhatsApp is temporarily unavailable.", canResend: true },
+  "130429": { reason: "Sending too fast for this number's throughput.", canResend: true },
+  "131048": { reason: "Spam rate limit hit: too many recent messages were blocked or reported.", canResend: true },
+  "131056": { reason: "Too many messages to this customer in a short time.", canResend: true },
+  "131042": { reason: "Business payment issue on the WhatsApp account.", canResend: false },
+  "131031": { reason: "The WhatsApp business account is locked.", canResend: false },
+  "132000": { reason: "Template parameters don't match the approved template.", canResend: false },
+  "132001": { reason: "The template doesn't exist or isn't approved in this language.", canResend: false },
+  "132015": { reason: "The template is paused for low quality.", canResend: false },
+  "132016": { reason: "The template is disabled for low quality.", canResend: false },
+};
+
+export interface DeliveryFailure {
+  reason: string;
+  code: string | null;
+  // Worth trying again as-is; otherwise the agent has to change something first
+  canResend: boolean;
+}
+
+export function describeDeliveryFailure(message: Message): DeliveryFailure {
+  const code = message.error_code != null ? String(message.error_code) : null;
+  const known = code ? DELIVERY_ERRORS[code] : undefined;
+  return {
+    reason: known?.reason || message.error || "WhatsApp did not deliver this message.",
+    code,
+    // Unknown codes get the benefit of the doubt
+    canResend: known?.canResend ?? true,
+  };
+}
@@ -0,0 +1,27 @@
+import type { Agent } from "./apiClient";
+
+// @mentions in internal notes are written as "@username". The note is saved
+// with the mentioned user_ids so the backend can route alerts without parsing.
+
+const MENTION_PATTERN = /@([\w.-]+)/g;
+
+/** The "@partial" being typed right before the caret, if any. */
+export function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([\w.-]*)$/);
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2].toLowerCase() };
+}
+
+/** user_ids of the agents mentioned in the text; unknown handles are ignored. */
+export function extractMentions(text: string, agents: Agent[]): string[] {
+  const handles = new Set(Array.from(text.matchAll(MENTION_PATTERN), (m) => m[1].toLowerCase()));
+  return agents.filter((agent) => handles.has(agent.username.toLowerCase())).map((agent) => agent.user_id);
+}
+
+/** Splits text into plain runs and "@handle" runs, for highlighting. */
+export function splitMentions(text: string): { text: string; isMention: boolean }[] {
+  return text
+    .split(/(@[\w.-]+)/)
+    .filter(Boolean)
+    .map((part) => ({ text: part, isMention: part.startsWith("@") }));
+}
@@ -0,0 +1,145 @@
+// Desktop notifications and sound alerts for the cockpit. Opt-in per agent:
+// preferences (which events, sound, quiet hours) live in localStorage.
+
+export type NotificationKind = "escalation" | "assigned_message" | "sla_breach" | "mention";
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local time, "HH:mm"; the range may wrap past midnight
+  start: string;
+  end: string;
+}
+
+export interface NotificationPrefs {
+  enabled: boolean;
+  sound: boolean;
+  kinds: Record<NotificationKind, boolean>;
+  quietHours: QuietHours;
+}
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  escalation: "New escalations",
+  assigned_message: "Messages on my tickets",
+  sla_breach: "SLA breaches",
+  mention: "@mentions of me",
+};
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  enabled: false,
+  sound: true,
+  kinds: { escalation: true, assigned_message: true, sla_breach: true, mention: true },
+  quietHours: { enabled: false, start: "22:00", end: "08:00" },
+};
+
+const storageKey = (userId: string) => `notification_prefs:${userId}`;
+
+export function loadNotificationPrefs(userId: string): NotificationPrefs {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    if (!raw) return DEFAULT_NOTIFICATION_PREFS;
+    const stored = JSON.parse(raw) as Partial<NotificationPrefs>;
+    return {
+      ...DEFAULT_NOTIFICATION_PREFS,
+      ...stored,
+      kinds: { ...DEFAULT_NOTIFICATION_PREFS.kinds, ...stored.kinds },
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFS.quietHours, ...stored.quietHours },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFS;
+  }
+}
+
+export function storeNotificationPrefs(userId: string, prefs: NotificationPrefs) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(prefs));
+}
+
+export const isNotificationSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export function getNotificationPermission(): NotificationPermission | "unsupported" {
+  return isNotificationSupported() ? Notification.permission : "unsupported";
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+  if (!isNotificationSupported()) return "unsupported";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export function isQuietTime(quietHours: QuietHours, now = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Two-note chime synthesised with WebAudio, so there is no asset to load.
+ * Browsers keep the context suspended until a user gesture; the "Test" button
+ * in the settings popover doubles as the unlock.
+ */
+export function playChime() {
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    if (audioContext.state === "suspended") void audioContext.resume();
+    const start = audioContext.currentTime;
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const noteStart = start + i * 0.15;
+      oscillator.type = "sine";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, noteStart);
+      gain.gain.exponentialRampToValueAtTime(0.2, noteStart + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + 0.4);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(noteStart);
+      oscillator.stop(noteStart + 0.45);
+    });
+  } catch (error) {
+    console.warn("[Notifications] Chime failed:", error);
+  }
+}
+
+export interface AlertPayload {
+  title: string;
+  body: string;
+  // Same tag replaces the previous notification (one per conversation, across tabs)
+  tag: string;
+  onClick?: () => void;
+}
+
+/**
+ * Raises an alert if the agent opted into this kind and it is outside quiet hours.
+ * The desktop notification is skipped while the tab is focused; the chime still plays.
+ */
+export function notify(prefs: NotificationPrefs, kind: NotificationKind, payload: AlertPayload) {
+  if (!prefs.enabled || !prefs.kinds[kind] || isQuietTime(prefs.quietHours)) return;
+
+  if (prefs.sound) playChime();
+
+  const isFocused = document.visibilityState === "visible" && document.hasFocus();
+  if (isFocused || getNotificationPermission() !== "granted") return;
+
+  // Android Chrome only allows notifications from a service worker and throws here
+  let notification: Notification;
+  try {
+    notification = new Notification(payload.title, { body: payload.body, tag: payload.tag });
+  } catch (error) {
+    console.warn("[Notifications] Could not show notification:", error);
+    return;
+  }
+  notification.onclick = () => {
+    window.focus();
+    payload.onClick?.();
+    notification.close();
+  };
+}
@@ -0,0 +1,217 @@
+import { ApiError } from "./api";
+import { conversationsApi, OutgoingMedia } from "./apiClient";
+
+// Persistent outbox for agent replies. Every reply is written to IndexedDB
+// before it is sent and only removed once the backend accepts it, so a
+// dropped connection or a closed tab never loses a message. The entry id
+// doubles as the Idempotency-Key, making re-sends safe.
+
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  business_id: string;
+  // Caption when media is attached
+  text: string;
+  // Already uploaded; only the send is queued
+  media?: OutgoingMedia;
+  created_at: string;
+  // pending: waiting for connectivity, a backoff retry or in flight; failed: needs the agent (retry or discard)
+  status: OutboxStatus;
+  error?: string;
+  attempts: number;
+}
+
+const DB_NAME = "cockpit-outbox";
+const STORE = "messages";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let entries: OutboxEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+const inFlight = new Set<string>();
+// One backoff timer per business; fires a flush of its pending entries
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Server errors while online are retried this many times before the agent is asked
+const MAX_AUTO_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60_000;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Simple pub/sub for React components
+type Listener = (entries: OutboxEntry[]) => void;
+const listeners = new Set<Listener>();
+
+function emit() {
+  listeners.forEach((fn) => fn([...entries]));
+}
+
+// Reads the persisted queue once per page load; every entry point awaits it
+function load() {
+  if (!loadPromise) {
+    loadPromise = withStore<OutboxEntry[]>("readonly", (store) => store.getAll())
+      .then((stored) => {
+        entries = stored.sort((a, b) => a.created_at.localeCompare(b.created_at));
+        emit();
+      })
+      .catch((err) => {
+        console.error("[outbox] Failed to load queued messages:", err);
+      });
+  }
+  return loadPromise;
+}
+
+async function put(entry: OutboxEntry) {
+  entries = entries.some((e) => e.id === entry.id)
+    ? entries.map((e) => (e.id === entry.id ? entry : e))
+    : [...entries, entry];
+  emit();
+  try {
+    await withStore("readwrite", (store) => store.put(entry));
+  } catch (err) {
+    console.error("[outbox] Failed to persist message:", err);
+  }
+}
+
+async function remove(id: string) {
+  entries = entries.filter((e) => e.id !== id);
+  emit();
+  try {
+    await withStore("readwrite", (store) => store.delete(id));
+  } catch (err) {
+    console.error("[outbox] Failed to remove message:", err);
+  }
+}
+
+// Network drops and server hiccups stay pending and are retried on a backoff;
+// anything else was rejected by the backend and waits for the agent
+const isTransient = (error: unknown) =>
+  error instanceof TypeError ||
+  (error instanceof ApiError && (error.status >= 500 || error.status === 408 || error.status === 429));
+
+function scheduleRetry(businessId: string, attempts: number) {
+  if (retryTimers.has(businessId)) return;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  retryTimers.set(
+    businessId,
+    setTimeout(() => {
+      retryTimers.delete(businessId);
+      flushOutbox(businessId);
+    }, delay)
+  );
+}
+
+export function getOutbox(): OutboxEntry[] {
+  return [...entries];
+}
+
+export function subscribeToOutbox(fn: Listener) {
+  listeners.add(fn);
+  load();
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export async function enqueueMessage(
+  conversationId: string,
+  businessId: string,
+  text: string,
+  media?: OutgoingMedia
+): Promise<OutboxEntry> {
+  await load();
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    conversation_id: conversationId,
+    business_id: businessId,
+    text,
+    media,
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+  };
+  await put(entry);
+  return entry;
+}
+
+/**
+ * Sends one queued entry. Resolves with the send result and drops the entry
+ * on success; on failure updates its status and rethrows.
+ */
+export async function deliverMessage(entry: OutboxEntry) {
+  await load();
+  if (inFlight.has(entry.id)) throw new Error("Message is already being sent");
+  inFlight.add(entry.id);
+  const current = entries.find((e) => e.id === entry.id) ?? entry;
+  await put({ ...current, status: "pending", error: undefined, attempts: current.attempts + 1 });
+
+  try {
+    const result = await conversationsApi.send(entry.conversation_id, entry.text, entry.id, entry.media);
+    await remove(entry.id);
+    return result;
+  } catch (err) {
+    const latest = entries.find((e) => e.id === entry.id);
+    if (latest) {
+      // Offline entries wait for the "online" flush without using up attempts
+      const isRetryable =
+        isTransient(err) && (!navigator.onLine || latest.attempts < MAX_AUTO_ATTEMPTS);
+      await put({
+        ...latest,
+        status: isRetryable ? "pending" : "failed",
+        error: err instanceof Error ? err.message : String(err),
+      });
+      if (isRetryable && navigator.onLine) scheduleRetry(latest.business_id, latest.attempts);
+    }
+    throw err;
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+/**
+ * Re-sends every pending entry for the business, oldest first. Called when the
+ * browser comes back online, when the realtime socket reconnects and by the
+ * backoff timer.
+ */
+export async function flushOutbox(businessId: string) {
+  await load();
+  const pending = entries.filter(
+    (e) => e.status === "pending" && e.business_id === businessId && !inFlight.has(e.id)
+  );
+  for (const entry of pending) {
+    try {
+      await deliverMessage(entry);
+    } catch {
+      // Still pending (offline or a server hiccup): stop here and keep the order for the next flush
+      if (entries.find((e) => e.id === entry.id)?.status === "pending") return;
+    }
+  }
+}
+
+export async function discardMessage(id: string) {
+  await load();
+  await remove(id);
+}
@@ -1,4 +1,8 @@
-import { API_BASE, ApiError } from "./api";
+import { z } from "zod";
+import type { RequestOptions } from "./api";
+import { contract, envelope, nullableArray, packerPerformanceListSchema, request, PackerPerformance } from "./apiClient";
+
+export type { PackerPerformance };
 
 export interface PackingOrder {
   order_id: string; // We force this to be a string
@@ -6,7 +10,7 @@ export interface PackingOrder {
   customer: { name: string; phone: string };
   customer_name?: string;
   item_count?: number;
-  items?: any[];
+  items?: unknown[];
   status: "Pending" | "In Progress" | "On Hold" | "Completed";
   created_at: string;
   packer_name?: string;
@@ -26,107 +30,108 @@ export interface PackingMetrics {
   completed_today: number;
 }
 
-export interface PackerPerformance {
-  name: string;
-  count: number;
-  last_active: string;
-}
-
-// Standard Backend Response Wrapper
-interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: T;
-  version?: string; // Make optional to prevent frontend crashes
-}
-
-async function packingRequest<T>(
-  businessId: string,
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> {
-  const token = sessionStorage.getItem("auth_token");
-
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-    "x-business-id": businessId,
-    ...options.headers,
-  };
-
-  if (token) {
-    (headers as Record<string, string>)["Authorization"] = `Bearer ${token}`;
-  }
-
-  const url = `${API_BASE}${endpoint}`;
-
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
-
-  if (response.status === 401) {
-    sessionStorage.removeItem("auth_token");
-    window.location.href = "/login";
-    throw new ApiError(401, "Unauthorized");
-  }
-
-  if (!response.ok) {
-    let errorMsg = "Request failed";
-    try {
-      const errorData = await response.json();
-      errorMsg = errorData.detail || errorData.message || "Request failed";
-    } catch (e) {
-      console.warn("Non-JSON error response", e);
-    }
-    throw new ApiError(response.status, errorMsg);
-  }
-
-  return response.json();
-}
-
-export const packingApi = {
-  getOrders: async (businessId: string, status: string = 'pending'): Promise<PackingOrder[]> => {
-    const statusParam = status === 'all' ? '' : `?status=${status}`;
-    const response = await packingRequest<{ orders: any[] }>(
-      businessId, 
-      `/api/v1/packing/orders${statusParam}`
-    );
-    
-    console.log(`[getOrders] Raw response:`, response);
-    
-    return (response.data.orders || []).map((order: any) => {
-      // 1. Resolve Customer Name
-      // Check nested object first, then flat fields, then fallback
+const packingStatusSchema = z.enum(["Pending", "In Progress", "On Hold", "Completed"]);
+
+// Shopify orders arrive with either a nested customer object or a flat customer_name,
+// and numeric ids; normalize to a display-ready PackingOrder here
+const packingOrderSchema = contract<PackingOrder>(
+  z
+    .object({
+      id: z.union([z.string(), z.number()]).nullish(),
+      _id: z.string().nullish(),
+      order_id: z.union([z.string(), z.number()]).nullish(),
+      name: z.string().nullish(),
+      order_number: z.union([z.string(), z.number()]).nullish(),
+      customer: z
+        .object({
+          name: z.string().nullish(),
+          first_name: z.string().nullish(),
+          last_name: z.string().nullish(),
+          phone: z.string().nullish(),
+        })
+        .nullish(),
+      customer_name: z.string().nullish(),
+      items: nullableArray(z.unknown()),
+      status: packingStatusSchema,
+      created_at: z.string(),
+      packer_name: z.string().nullish(),
+      hold_reason: z.string().nullish(),
+      notes: z.string().nullish(),
+    })
+    .transform((order) => {
+      // 1. Resolve Customer Name: nested object first, then flat field, then fallback
       let customerName = "Guest";
-      if (order.customer && typeof order.customer === 'object') {
-        customerName = order.customer.name || 
-                       (order.customer.first_name ? `${order.customer.first_name} ${order.customer.last_name || ''}` : "Guest");
+      if (order.customer) {
+        customerName =
+          order.customer.name ||
+          (order.customer.first_name ? `${order.customer.first_name} ${order.customer.last_name || ""}` : "Guest");
       } else if (order.customer_name) {
         customerName = order.customer_name;
       }
 
-      // 2. Resolve Order Number (Display Name)
-      // FIX: Force display of the Name (e.g. #FO1067)
-      // If 'name' exists, use it. If not, try 'order_number' with prefix. Only use 'id' as last resort.
+      // 2. Resolve Order Number (Display Name), e.g. #FO1067. Only use 'id' as last resort.
       const displayTitle = order.name || (order.order_number ? `#${order.order_number}` : String(order.id));
 
       return {
-        ...order,
         order_id: String(order.order_id || order.id || order._id || ""),
-        order_number: displayTitle, 
+        order_number: displayTitle,
+        customer: { name: customerName, phone: order.customer?.phone || "" },
         customer_name: customerName,
-        item_count: order.items?.length || 0
+        item_count: order.items.length,
+        items: order.items,
+        status: order.status,
+        created_at: order.created_at,
+        packer_name: order.packer_name ?? undefined,
+        hold_reason: order.hold_reason ?? undefined,
+        notes: order.notes ?? undefined,
       };
-    });
+    })
+);
+
+const packingConfigSchema = contract<PackingConfig>(
+  z.object({
+    packers: nullableArray(z.string()),
+    carriers: nullableArray(z.string()),
+  })
+);
+
+const count = z.number().nullish().transform((v) => v ?? 0);
+
+const packingMetricsSchema = contract<PackingMetrics>(
+  z.object({
+    pending: count,
+    in_progress: count,
+    on_hold: count,
+    completed_today: count,
+  })
+);
+
+// Order actions whose payload we don't read
+const ackSchema = z.unknown();
+
+function packingRequest<S extends z.ZodTypeAny>(
+  businessId: string,
+  schema: S,
+  endpoint: string,
+  options: RequestOptions = {}
+): Promise<z.output<S>> {
+  return request(schema, endpoint, { ...options, businessId });
+}
+
+export const packingApi = {
+  getOrders: async (businessId: string, status: string = 'pending'): Promise<PackingOrder[]> => {
+    const statusParam = status === 'all' ? '' : `?status=${status}`;
+    const response = await packingRequest(
+      businessId,
+      envelope(z.object({ orders: nullableArray(packingOrderSchema) })),
+      `/api/v1/packing/orders${statusParam}`
+    );
+    return response.data.orders;
   },
 
   getConfig: async (businessId: string): Promise<PackingConfig> => {
-    const response = await packingRequest<PackingConfig>(businessId, "/api/v1/packing/config");
-    // Ensure we return valid arrays even if backend sends null
-    return {
-        packers: response.data.packers || [],
-        carriers: response.data.carriers || []
-    };
+    const response = await packingRequest(businessId, envelope(packingConfigSchema), "/api/v1/packing/config");
+    return response.data;
   },
 
   startOrder: async (businessId: string, orderId: string): Promise<void> => {
@@ -135,7 +140,7 @@ export const packingApi = {
       throw new Error("Invalid Order ID");
     }
     console.log("Starting order:", orderId);
-    await packingRequest<void>(businessId, `/api/v1/packing/orders/${orderId}/start`, { method: "POST" });
+    await packingRequest(businessId, ackSchema, `/api/v1/packing/orders/${orderId}/start`, { method: "POST" });
   },
 
   holdOrder: async (businessId: string, orderId: string, reason: string, notes: string): Promise<void> => {
@@ -143,7 +148,7 @@ export const packingApi = {
       console.error("Attempted to call holdOrder with empty orderId");
       throw new Error("Invalid Order ID");
     }
-    await packingRequest<void>(businessId, `/api/v1/packing/orders/${orderId}/hold`, {
+    await packingRequest(businessId, ackSchema, `/api/v1/packing/orders/${orderId}/hold`, {
       method: "POST",
       body: JSON.stringify({ reason, notes }),
     });
@@ -154,14 +159,16 @@ export const packingApi = {
     orderId: string,
     packer: string,
     carrier: string,
-    trackingNumber: string
+    trackingNumber: string,
+    idempotencyKey: string = crypto.randomUUID()
   ): Promise<void> => {
     if (!orderId) {
       console.error("Attempted to call fulfillOrder with empty orderId");
       throw new Error("Invalid Order ID");
     }
-    await packingRequest<void>(businessId, `/api/v1/packing/orders/${orderId}/fulfill`, {
+    await packingRequest(businessId, ackSchema, `/api/v1/packing/orders/${orderId}/fulfill`, {
       method: "POST",
+      idempotencyKey,
       body: JSON.stringify({ 
         packer_name: packer,
         carrier, 
@@ -175,24 +182,20 @@ export const packingApi = {
       console.error("Attempted to call requeueOrder with empty orderId");
       throw new Error("Invalid Order ID");
     }
-    await packingRequest<void>(businessId, `/api/v1/packing/orders/${orderId}/requeue`, { method: "POST" });
+    await packingRequest(businessId, ackSchema, `/api/v1/packing/orders/${orderId}/requeue`, { method: "POST" });
   },
 
   getMetrics: async (businessId: string): Promise<PackingMetrics> => {
-    const response = await packingRequest<PackingMetrics>(businessId, "/api/v1/packing/metrics");
-    return {
-      pending: response.data.pending || 0,
-      in_progress: response.data.in_progress || 0,
-      on_hold: response.data.on_hold || 0,
-      completed_today: response.data.completed_today || 0,
-    };
+    const response = await packingRequest(businessId, envelope(packingMetricsSchema), "/api/v1/packing/metrics");
+    return response.data;
   },
 
   getPerformance: async (businessId: string, days: number = 7): Promise<PackerPerformance[]> => {
-    const response = await packingRequest<{ packers: PackerPerformance[] }>(
+    const response = await packingRequest(
       businessId,
+      envelope(z.object({ packers: packerPerformanceListSchema })),
       `/api/v1/packing/packer-performance?days=${days}`
     );
-    return response.data.packers || [];
+    return response.data.packers;
   },
 };
@@ -0,0 +1,92 @@
+// {{Variable}} placeholders shared by AI strings and saved replies.
+// Names must match what the backend substitutes.
+
+// Backend variable names (without braces)
+export const ALLOWED_PLACEHOLDERS = [
+  "Store_Name",
+  "Store_Address",
+  "Support_Phone",
+  "Wholesale_Phone",
+  "Support_Email",
+  "Store_Hours",
+  "Website_URL",
+  "Shipping_Policy_URL",
+  "Google_Review_Link",
+  "Social_Media_Links",
+  "order_number",
+  "tracking_link",
+  "estimated_delivery",
+  "city_info",
+];
+
+// Extract all placeholders from text (double curly braces)
+export const extractPlaceholders = (text: string): string[] => {
+  const regex = /\{\{([^}]+)\}\}/g;
+  const matches: string[] = [];
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match[1]);
+  }
+  return matches;
+};
+
+// Find unknown placeholders (case-insensitive comparison)
+export const findUnknownPlaceholders = (placeholders: string[]): string[] => {
+  return placeholders.filter((p) => {
+    const lowerP = p.toLowerCase();
+    return !ALLOWED_PLACEHOLDERS.some(allowed => allowed.toLowerCase() === lowerP);
+  });
+};
+
+// Suggest similar placeholder (case-insensitive)
+export const suggestPlaceholder = (unknown: string): string | null => {
+  const lower = unknown.toLowerCase();
+  
+  // Direct case-insensitive match
+  for (const allowed of ALLOWED_PLACEHOLDERS) {
+    if (allowed.toLowerCase() === lower) {
+      return allowed;
+    }
+  }
+  
+  // Partial match
+  for (const allowed of ALLOWED_PLACEHOLDERS) {
+    const allowedLower = allowed.toLowerCase().replace(/_/g, "");
+    if (allowedLower.includes(lower) || lower.includes(allowedLower)) {
+      return allowed;
+    }
+  }
+  
+  // Common typo mappings
+  if (lower.includes("delivery") || lower.includes("date")) return "estimated_delivery";
+  if (lower.includes("track")) return "tracking_link";
+  if (lower.includes("order")) return "order_number";
+  if (lower.includes("email")) return "Support_Email";
+  if (lower.includes("phone")) return "Support_Phone";
+  if (lower.includes("address")) return "Store_Address";
+  if (lower.includes("name") || lower.includes("store") || lower.includes("business")) return "Store_Name";
+  if (lower.includes("url") || lower.includes("website")) return "Website_URL";
+  if (lower.includes("hour")) return "Store_Hours";
+  if (lower.includes("review") || lower.includes("google")) return "Google_Review_Link";
+  if (lower.includes("social") || lower.includes("media")) return "Social_Media_Links";
+  if (lower.includes("shipping") || lower.includes("policy")) return "Shipping_Policy_URL";
+  if (lower.includes("wholesale")) return "Wholesale_Phone";
+  return null;
+};
+
+// Warning text for each unknown placeholder in a template
+export const placeholderWarnings = (text: string): string[] =>
+  findUnknownPlaceholders(extractPlaceholders(text)).map((unknown) => {
+    const suggestion = suggestPlaceholder(unknown);
+    if (suggestion) {
+      return `Unknown variable '{{${unknown}}}'. Did you mean '{{${suggestion}}}'?`;
+    }
+    return `Unknown variable '{{${unknown}}}'. Allowed: ${ALLOWED_PLACEHOLDERS.map(p => `{{${p}}}`).join(", ")}`;
+  });
+
+// Replace {{Variable}} with values keyed by bare name (case-insensitive);
+// placeholders without a value are left in place for the agent to fill in
+export const fillPlaceholders = (text: string, values: Record<string, string>): string => {
+  const lookup = new Map(Object.entries(values).map(([k, v]) => [k.toLowerCase(), v]));
+  return text.replace(/\{\{([^}]+)\}\}/g, (match, name: string) => lookup.get(name.trim().toLowerCase()) ?? match);
+};
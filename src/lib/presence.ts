@@ -0,0 +1,118 @@
+import { RealtimeEvent, sendRealtime } from "./realtime";
+
+// Who else is looking at or typing in a conversation, to stop two agents
+// answering the same customer. Each agent announces the conversation it has
+// open over the realtime socket and re-announces on a heartbeat; entries that
+// stop being refreshed expire, so a closed tab drops out on its own.
+
+export type PresenceActivity = "viewing" | "typing";
+
+export interface PresenceEntry {
+  user_id: string;
+  username: string;
+  activity: PresenceActivity;
+  updated_at: number;
+}
+
+export const PRESENCE_HEARTBEAT_MS = 20000;
+// How often expired entries are swept
+export const PRESENCE_SWEEP_MS = 3000;
+// A couple of missed heartbeats before someone is considered gone
+const PRESENCE_TTL_MS = 45000;
+// Typing falls back to viewing when the keystrokes stop
+const TYPING_TTL_MS = 6000;
+// Keystrokes re-announce typing at most this often
+const TYPING_THROTTLE_MS = 3000;
+
+// conversation_id -> user_id -> entry
+const presence = new Map<string, Map<string, PresenceEntry>>();
+
+// What this tab last announced, re-sent on heartbeat and reconnect
+let local: { conversationId: string; activity: PresenceActivity; sentAt: number } | null = null;
+
+// Simple pub/sub for React components
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function notifyListeners() {
+  listeners.forEach((fn) => fn());
+}
+
+export function subscribeToPresence(fn: Listener) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Folds a realtime event into the presence map. */
+export function applyPresenceEvent(event: RealtimeEvent) {
+  if (event.type !== "presence.update") return;
+  const viewers = presence.get(event.conversation_id) ?? new Map<string, PresenceEntry>();
+  if (event.activity) {
+    viewers.set(event.user_id, {
+      user_id: event.user_id,
+      username: event.username,
+      activity: event.activity,
+      updated_at: Date.now(),
+    });
+    // An agent is only in one conversation at a time
+    presence.forEach((others, conversationId) => {
+      if (conversationId !== event.conversation_id) others.delete(event.user_id);
+    });
+  } else {
+    viewers.delete(event.user_id);
+  }
+  presence.set(event.conversation_id, viewers);
+  notifyListeners();
+}
+
+/** Drops entries whose heartbeat stopped and turns stale typing back into viewing. */
+export function prunePresence() {
+  const now = Date.now();
+  let changed = false;
+  presence.forEach((viewers) => {
+    viewers.forEach((entry, userId) => {
+      if (now - entry.updated_at > PRESENCE_TTL_MS) {
+        viewers.delete(userId);
+        changed = true;
+      } else if (entry.activity === "typing" && now - entry.updated_at > TYPING_TTL_MS) {
+        viewers.set(userId, { ...entry, activity: "viewing" });
+        changed = true;
+      }
+    });
+  });
+  if (changed) notifyListeners();
+}
+
+/** Everyone in the conversation except the given agent. */
+export function getPresence(conversationId: string, exceptUserId?: string): PresenceEntry[] {
+  return Array.from(presence.get(conversationId)?.values() ?? []).filter((entry) => entry.user_id !== exceptUserId);
+}
+
+/** Announces this agent's activity in a conversation; typing is throttled. */
+export function announcePresence(conversationId: string, activity: PresenceActivity) {
+  const now = Date.now();
+  if (
+    activity === "typing" &&
+    local?.conversationId === conversationId &&
+    local.activity === "typing" &&
+    now - local.sentAt < TYPING_THROTTLE_MS
+  ) {
+    return;
+  }
+  local = { conversationId, activity, sentAt: now };
+  sendRealtime({ type: "presence.update", conversation_id: conversationId, activity });
+}
+
+/** Tells the others this agent left the conversation. */
+export function leavePresence(conversationId: string) {
+  if (local?.conversationId !== conversationId) return;
+  local = null;
+  sendRealtime({ type: "presence.update", conversation_id: conversationId, activity: null });
+}
+
+/** Re-sends the current conversation as viewed; for heartbeats and after a reconnect. */
+export function refreshPresence() {
+  if (local) announcePresence(local.conversationId, "viewing");
+}
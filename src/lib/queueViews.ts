@@ -0,0 +1,64 @@
+import type { ConversationFilters, ConversationSummary } from "./apiClient";
+import { isSlaBreached } from "./sla";
+
+// Named ticket queue views. Built-in views ship with the app; agents can save
+// their own filter combinations, stored per agent in localStorage.
+
+export interface QueueView {
+  id: string;
+  name: string;
+  filters: ConversationFilters;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_VIEWS: QueueView[] = [
+  { id: "all", name: "Needs Attention", filters: { status: "open", ai_state: "paused", sort: "oldest" }, builtIn: true },
+  { id: "pending", name: "Bot Active", filters: { status: "open", ai_state: "active" }, builtIn: true },
+  { id: "resolved", name: "Resolved", filters: { status: "resolved", sort: "newest" }, builtIn: true },
+  { id: "breached", name: "SLA breached", filters: { status: "open", sla_breached: true, sort: "oldest" }, builtIn: true },
+  { id: "mine", name: "My open tickets", filters: { status: "open", assigned_to: "me" }, builtIn: true },
+  {
+    id: "unassigned-30",
+    name: "Unassigned > 30 min",
+    filters: { status: "open", assigned_to: "unassigned", waiting_minutes: 30, sort: "oldest" },
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_VIEW_ID = "all";
+
+// Marker for filters edited away from any named view
+export const CUSTOM_VIEW_ID = "custom";
+
+const storageKey = (userId: string) => `queue_views:${userId}`;
+
+export function loadSavedViews(userId: string): QueueView[] {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? (JSON.parse(raw) as QueueView[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedViews(userId: string, views: QueueView[]) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(views.filter((v) => !v.builtIn)));
+}
+
+/**
+ * Client-side check for the filters we can evaluate locally. The server already
+ * filtered the page; this drops tickets that stop matching after a realtime
+ * event or an optimistic update (e.g. AI resumed on a "Needs Attention" ticket).
+ */
+export function matchesFilters(conv: ConversationSummary, filters: ConversationFilters, userId?: string): boolean {
+  if (filters.status && conv.status !== filters.status) return false;
+  if (filters.ai_state === "paused" && conv.ai_enabled !== false && conv.ai_paused_by == null) return false;
+  if (filters.ai_state === "active" && (conv.ai_enabled !== true || conv.ai_paused_by != null)) return false;
+  if (filters.assigned_to === "unassigned" && conv.assigned_to) return false;
+  if (filters.assigned_to === "me" && userId && conv.assigned_to !== userId) return false;
+  if (filters.unread && !conv.unread_count) return false;
+  if (filters.sla_breached && !isSlaBreached(conv)) return false;
+  if (filters.issue_type && conv.issue_type !== filters.issue_type) return false;
+  if (filters.tag && !conv.tags?.includes(filters.tag)) return false;
+  return true;
+}
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import { API_BASE } from "./api";
+import {
+  aiEventSchema,
+  aiSuggestionSchema,
+  contract,
+  conversationSummarySchema,
+  internalNoteSchema,
+  messageSchema,
+} from "./apiClient";
+import type { AgentStatus, AiEvent, AiSuggestion, ConversationSummary, InternalNote, Message } from "./apiClient";
+import type { PresenceActivity } from "./presence";
+
+// Realtime conversation events pushed by the backend over WebSocket.
+// The socket is opened lazily by the first subscriber and closed when the
+// last one leaves; callers fall back to polling while status !== "open".
+// Frames are validated like API responses; anything that does not match is
+// dropped here so listeners can trust the event shape.
+
+export type RealtimeStatus = "connecting" | "open" | "closed";
+
+export type RealtimeEvent =
+  | {
+      type: "message.created";
+      conversation_id: string;
+      message: Message;
+      // Current assignee, so agents can be alerted about their own tickets
+      assigned_to?: string | null;
+    }
+  | {
+      // WhatsApp status webhook for an outbound message; message_id is our id or the wamid
+      type: "message.status";
+      conversation_id: string;
+      message_id: string;
+      status: "sent" | "delivered" | "read" | "failed";
+      error_code?: number | string | null;
+      error_message?: string | null;
+    }
+  | {
+      type: "conversation.created";
+      conversation: ConversationSummary;
+    }
+  | {
+      type: "conversation.status";
+      conversation_id: string;
+      status: string;
+    }
+  | {
+      type: "conversation.assigned";
+      conversation_id: string;
+      assigned_to: string | null;
+      assigned_to_username?: string | null;
+    }
+  | {
+      type: "conversation.ai";
+      conversation_id: string;
+      ai_enabled: boolean;
+      ai_paused_by: string | null;
+      ai_pause_reason?: string | null;
+      ai_resume_at?: string | null;
+      // The history entry for this change, if it was one
+      event?: AiEvent;
+    }
+  | {
+      type: "conversation.sla_breached";
+      conversation_id: string;
+      sla: "first_response" | "resolution";
+      phone?: string;
+      assigned_to?: string | null;
+    }
+  | {
+      type: "conversation.tags";
+      conversation_id: string;
+      issue_type: string | null;
+      tags: string[];
+    }
+  | {
+      type: "agent.status";
+      user_id: string;
+      status: AgentStatus;
+    }
+  | {
+      type: "note.created";
+      conversation_id: string;
+      note: InternalNote;
+    }
+  | {
+      // New draft from the bot for a paused conversation
+      type: "conversation.suggestion";
+      conversation_id: string;
+      suggestion: AiSuggestion;
+    }
+  | {
+      // Another agent opened, left or is typing in a conversation; null activity means they left
+      type: "presence.update";
+      conversation_id: string;
+      user_id: string;
+      username: string;
+      activity: PresenceActivity | null;
+    };
+
+// Frames the cockpit sends up the socket; the backend stamps the sender from the token
+export type RealtimeClientFrame = {
+  type: "presence.update";
+  conversation_id: string;
+  activity: PresenceActivity | null;
+};
+
+const realtimeEventSchema = contract<RealtimeEvent>(
+  z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("message.created"),
+      conversation_id: z.string(),
+      message: messageSchema,
+      assigned_to: z.string().nullish(),
+    }),
+    z.object({
+      type: z.literal("message.status"),
+      conversation_id: z.string(),
+      message_id: z.string(),
+      status: z.enum(["sent", "delivered", "read", "failed"]),
+      error_code: z.union([z.number(), z.string()]).nullish(),
+      error_message: z.string().nullish(),
+    }),
+    z.object({
+      type: z.literal("conversation.created"),
+      conversation: conversationSummarySchema,
+    }),
+    z.object({
+      type: z.literal("conversation.status"),
+      conversation_id: z.string(),
+      status: z.string(),
+    }),
+    z.object({
+      type: z.literal("conversation.assigned"),
+      conversation_id: z.string(),
+      assigned_to: z.string().nullable(),
+      assigned_to_username: z.string().nullish(),
+    }),
+    z.object({
+      type: z.literal("conversation.ai"),
+      conversation_id: z.string(),
+      ai_enabled: z.boolean(),
+      ai_paused_by: z.string().nullable(),
+      ai_pause_reason: z.string().nullish(),
+      ai_resume_at: z.string().nullish(),
+      event: aiEventSchema.optional(),
+    }),
+    z.object({
+      type: z.literal("conversation.sla_breached"),
+      conversation_id: z.string(),
+      sla: z.enum(["first_response", "resolution"]),
+      phone: z.string().optional(),
+      assigned_to: z.string().nullish(),
+    }),
+    z.object({
+      type: z.literal("conversation.tags"),
+      conversation_id: z.string(),
+      issue_type: z.string().nullable(),
+      tags: z.array(z.string()).nullish().transform((v) => v ?? []),
+    }),
+    z.object({
+      type: z.literal("agent.status"),
+      user_id: z.string(),
+      status: z.enum(["online", "away", "offline"]),
+    }),
+    z.object({
+      type: z.literal("note.created"),
+      conversation_id: z.string(),
+      note: internalNoteSchema,
+    }),
+    z.object({
+      type: z.literal("conversation.suggestion"),
+      conversation_id: z.string(),
+      suggestion: aiSuggestionSchema,
+    }),
+    z.object({
+      type: z.literal("presence.update"),
+      conversation_id: z.string(),
+      user_id: z.string(),
+      username: z.string(),
+      activity: z.enum(["viewing", "typing"]).nullable(),
+    }),
+  ])
+);
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = "closed";
+let reconnectDelay = MIN_RECONNECT_DELAY;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const buildSocketUrl = (token: string) =>
+  `${API_BASE.replace(/^http/, "ws")}/api/v1/realtime/ws?token=${encodeURIComponent(token)}`;
+
+function setStatus(next: RealtimeStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((fn) => fn(next));
+}
+
+function hasSubscribers() {
+  return eventListeners.size > 0 || statusListeners.size > 0;
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || !hasSubscribers()) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+}
+
+function connect() {
+  if (socket) return;
+
+  // WebSocket cannot carry an Authorization header, so the token goes in the query string
+  const token = sessionStorage.getItem("auth_token");
+  if (!token) {
+    setStatus("closed");
+    return;
+  }
+
+  setStatus("connecting");
+  const ws = new WebSocket(buildSocketUrl(token));
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = MIN_RECONNECT_DELAY;
+    setStatus("open");
+  };
+
+  ws.onmessage = (msg) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(msg.data);
+    } catch {
+      console.warn("[realtime] Ignoring non-JSON frame:", msg.data);
+      return;
+    }
+    const parsed = realtimeEventSchema.safeParse(payload);
+    if (!parsed.success) {
+      console.warn("[realtime] Ignoring unexpected event:", parsed.error.issues, payload);
+      return;
+    }
+    const event = parsed.data;
+    // One broken listener must not starve the others
+    eventListeners.forEach((fn) => {
+      try {
+        fn(event);
+      } catch (error) {
+        console.error(`[realtime] Listener failed on ${event.type}:`, error);
+      }
+    });
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) socket = null;
+    setStatus("closed");
+    scheduleReconnect();
+  };
+
+  ws.onerror = () => {
+    // onclose always follows; reconnect is handled there
+    ws.close();
+  };
+}
+
+function disconnectIfIdle() {
+  if (hasSubscribers()) return;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectDelay = MIN_RECONNECT_DELAY;
+  if (socket) {
+    const ws = socket;
+    socket = null;
+    ws.onclose = null;
+    ws.close();
+  }
+  setStatus("closed");
+}
+
+export function getRealtimeStatus(): RealtimeStatus {
+  return status;
+}
+
+/** Sends a frame if the socket is open. Returns false when it was dropped. */
+export function sendRealtime(frame: RealtimeClientFrame): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(frame));
+  return true;
+}
+
+export function subscribeToRealtime(fn: EventListener) {
+  eventListeners.add(fn);
+  connect();
+  return () => {
+    eventListeners.delete(fn);
+    disconnectIfIdle();
+  };
+}
+
+export function subscribeToRealtimeStatus(fn: StatusListener) {
+  statusListeners.add(fn);
+  connect();
+  return () => {
+    statusListeners.delete(fn);
+    disconnectIfIdle();
+  };
+}
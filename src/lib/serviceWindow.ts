@@ -0,0 +1,45 @@
+import type { Message } from "./apiClient";
+import { normalizeUTC } from "./utils";
+
+// WhatsApp's customer-service window: free-form replies are only accepted for
+// 24 hours after the customer's last message. Outside it only approved
+// templates can be sent, so the cockpit switches the composer over.
+
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Remaining time at which the header countdown turns amber
+const CLOSING_SOON_MS = 2 * 60 * 60 * 1000;
+
+export type ServiceWindowLevel = "open" | "closing" | "closed";
+
+export interface ServiceWindow {
+  // null when the customer has never written in this thread
+  closesAt: Date | null;
+  remainingMs: number;
+  level: ServiceWindowLevel;
+}
+
+const isInbound = (msg: Message) =>
+  msg.source !== "note" && (msg.direction ? msg.direction === "inbound" : msg.sender === "user");
+
+/** When the customer last wrote, from the loaded thread. */
+export function getLastInboundAt(messages: Message[]): Date | null {
+  let latest: number | null = null;
+  for (const msg of messages) {
+    const time = msg.timestamp || msg.created_at;
+    if (!time || !isInbound(msg)) continue;
+    const at = new Date(normalizeUTC(time)).getTime();
+    if (Number.isNaN(at)) continue;
+    if (latest === null || at > latest) latest = at;
+  }
+  return latest === null ? null : new Date(latest);
+}
+
+export function getServiceWindow(messages: Message[], now = Date.now()): ServiceWindow {
+  const lastInboundAt = getLastInboundAt(messages);
+  if (!lastInboundAt) return { closesAt: null, remainingMs: 0, level: "closed" };
+
+  const closesAt = new Date(lastInboundAt.getTime() + SERVICE_WINDOW_MS);
+  const remainingMs = closesAt.getTime() - now;
+  const level: ServiceWindowLevel = remainingMs <= 0 ? "closed" : remainingMs <= CLOSING_SOON_MS ? "closing" : "open";
+  return { closesAt, remainingMs, level };
+}
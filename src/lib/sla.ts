@@ -0,0 +1,75 @@
+import type { SlaConfig } from "./apiClient";
+import { normalizeUTC } from "./utils";
+
+// SLA countdowns for the ticket queue. Deadlines come from the backend
+// (first_response_due_at / resolution_due_at); the client only measures
+// how close "now" is to them.
+
+export type SlaKind = "first_response" | "resolution";
+export type SlaLevel = "ok" | "warning" | "critical" | "breached";
+
+export interface SlaDeadlines {
+  first_response_due_at?: string | null;
+  resolution_due_at?: string | null;
+}
+
+export interface SlaState {
+  kind: SlaKind;
+  dueAt: Date;
+  remainingMs: number;
+  level: SlaLevel;
+}
+
+// Used when the business has not configured targets yet
+export const DEFAULT_SLA: SlaConfig = {
+  first_response_minutes: 15,
+  resolution_minutes: 24 * 60,
+};
+
+export const SLA_KIND_LABELS: Record<SlaKind, string> = {
+  first_response: "First response",
+  resolution: "Resolution",
+};
+
+// Fraction of the target left when the chip turns amber / red
+const WARNING_FRACTION = 0.5;
+const CRITICAL_FRACTION = 0.2;
+
+const targetMs = (kind: SlaKind, config: SlaConfig) =>
+  (kind === "first_response" ? config.first_response_minutes : config.resolution_minutes) * 60 * 1000;
+
+/** The deadline that matters right now: first response until an agent replies, then resolution. */
+export function getSlaState(deadlines: SlaDeadlines, config: SlaConfig = DEFAULT_SLA, now = Date.now()): SlaState | null {
+  const kind: SlaKind | null = deadlines.first_response_due_at
+    ? "first_response"
+    : deadlines.resolution_due_at
+      ? "resolution"
+      : null;
+  if (!kind) return null;
+
+  const dueAt = new Date(normalizeUTC(kind === "first_response" ? deadlines.first_response_due_at : deadlines.resolution_due_at));
+  const remainingMs = dueAt.getTime() - now;
+  const fraction = remainingMs / targetMs(kind, config);
+
+  let level: SlaLevel = "ok";
+  if (remainingMs <= 0) level = "breached";
+  else if (fraction <= CRITICAL_FRACTION) level = "critical";
+  else if (fraction <= WARNING_FRACTION) level = "warning";
+
+  return { kind, dueAt, remainingMs, level };
+}
+
+export function isSlaBreached(deadlines: SlaDeadlines, now = Date.now()): boolean {
+  return [deadlines.first_response_due_at, deadlines.resolution_due_at].some(
+    (due) => !!due && new Date(normalizeUTC(due)).getTime() <= now
+  );
+}
+
+/** "12m", "1h 05m", "2d 3h"; sign is dropped, callers say "left" or "over" */
+export function formatSlaRemaining(ms: number): string {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  if (totalMinutes < 60) return `${totalMinutes}m`;
+  const hours = Math.floor(totalMinutes / 60);
+  if (hours < 24) return `${hours}h ${String(totalMinutes % 60).padStart(2, "0")}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -0,0 +1,27 @@
+import type { AiSuggestion, SuggestionOutcome, SuggestionStats } from "./apiClient";
+
+// AI "suggest" mode: on conversations where the bot is paused, its proposed
+// reply is offered to the agent as a draft instead of being sent. Whether an
+// agent wants this is their own choice, so it is stored per agent.
+
+const storageKey = (userId: string) => `ai_suggest_mode:${userId}`;
+
+export function loadSuggestMode(userId: string): boolean {
+  return localStorage.getItem(storageKey(userId)) === "on";
+}
+
+export function storeSuggestMode(userId: string, enabled: boolean) {
+  localStorage.setItem(storageKey(userId), enabled ? "on" : "off");
+}
+
+/** How a used suggestion ended up: sent untouched or after changes. Whitespace doesn't count as an edit. */
+export function getSentOutcome(suggestion: AiSuggestion, sentText: string): SuggestionOutcome {
+  const normalize = (text: string) => text.trim().replace(/\s+/g, " ");
+  return normalize(sentText) === normalize(suggestion.text) ? "accepted" : "edited";
+}
+
+/** Share of shown suggestions that were sent, as is or edited; null before any were shown. */
+export function getAcceptanceRate(stats: SuggestionStats | undefined): number | null {
+  if (!stats?.shown) return null;
+  return ((stats.accepted + stats.edited) / stats.shown) * 100;
+}
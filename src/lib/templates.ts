@@ -0,0 +1,71 @@
+// Parameters for the approved WhatsApp templates. Each template takes a fixed
+// set of inputs; "{{name}}" is filled in by the backend per recipient, so the
+// same payload works for a broadcast audience and for a single conversation.
+
+export interface TemplateParams {
+  header_media_url: string;
+  button_suffix: string;
+  discount_percent: string;
+  coupon_code: string;
+  expiry_date: string;
+}
+
+export const EMPTY_TEMPLATE_PARAMS: TemplateParams = {
+  header_media_url: "",
+  button_suffix: "",
+  discount_percent: "",
+  coupon_code: "",
+  expiry_date: "",
+};
+
+// Sample customer name for previews
+const PREVIEW_NAME = "Shanaya";
+
+/** Template-specific send payload. */
+export function buildTemplatePayload(templateId: string, params: TemplateParams): Record<string, unknown> {
+  switch (templateId) {
+    case "new_arrival_showcase":
+      return {
+        header_image_url: params.header_media_url,
+        button_url_suffix: params.button_suffix,
+        body_params: ["{{name}}"],
+      };
+    case "video_collection_launch":
+      return {
+        header_video_url: params.header_media_url,
+        button_url_suffix: params.button_suffix,
+        body_params: ["{{name}}"],
+      };
+    case "festival_sale_alert":
+      return {
+        body_params: ["{{name}}", params.discount_percent, params.coupon_code, params.expiry_date],
+        button_url_suffix: params.button_suffix,
+      };
+    case "gentle_greeting_v1":
+      return {
+        body_params: ["{{name}}"],
+      };
+    default:
+      return {};
+  }
+}
+
+/** Template body with its variables filled in for the preview. */
+export function getTemplatePreviewText(templateId: string, body: string, params: TemplateParams): string {
+  if (!body) return "";
+
+  // Replace {{1}} with placeholder name
+  let text = body.replace(/\{\{1\}\}/g, PREVIEW_NAME);
+
+  // Template-specific replacements
+  if (templateId === "festival_sale_alert") {
+    text = text.replace(/\{\{2\}\}/g, params.discount_percent || "..");
+    text = text.replace(/\{\{3\}\}/g, params.coupon_code || "..");
+    text = text.replace(/\{\{4\}\}/g, params.expiry_date || "..");
+  }
+
+  return text;
+}
+
+// All templates except gentle_greeting carry a link button
+export const templateHasButton = (templateId: string) => !!templateId && templateId !== "gentle_greeting_v1";
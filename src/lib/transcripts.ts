@@ -0,0 +1,322 @@
+import { format } from "date-fns";
+import type { Ticket } from "@/components/cockpit/TicketCard";
+import { sendRequest } from "./api";
+import { conversationsApi, Message } from "./apiClient";
+import { describeAiEvent } from "./aiHandoff";
+import { describeMessage } from "./whatsappMessages";
+import { normalizeUTC } from "./utils";
+
+// Conversation transcripts for chargebacks and courier disputes: a
+// self-contained HTML page laid out like the cockpit thread (images inlined,
+// so the file works offline and without a login), the same page sent to the
+// browser's print dialog for PDF, or one CSV row per message.
+
+export type TranscriptFormat = "pdf" | "html" | "csv";
+
+export interface TranscriptRedaction {
+  // Customer's number shown as +91•••••1234; other numbers in message text masked fully
+  phones: boolean;
+  emails: boolean;
+  // 13–19 digit runs (cards, bank accounts), last 4 kept
+  cards: boolean;
+  // Agent names replaced with "Agent"
+  agentNames: boolean;
+}
+
+export interface TranscriptOptions {
+  format: TranscriptFormat;
+  // Message date window, YYYY-MM-DD (inclusive); empty for no limit
+  from: string;
+  to: string;
+  includeNotes: boolean;
+  includeImages: boolean;
+  redaction: TranscriptRedaction;
+}
+
+export const DEFAULT_TRANSCRIPT_OPTIONS: TranscriptOptions = {
+  format: "pdf",
+  from: "",
+  to: "",
+  includeNotes: false,
+  includeImages: true,
+  redaction: { phones: false, emails: false, cards: true, agentNames: false },
+};
+
+export const TRANSCRIPT_FORMATS: { value: TranscriptFormat; label: string; hint: string }[] = [
+  { value: "pdf", label: "PDF", hint: "Opens the print dialog; choose Save as PDF" },
+  { value: "html", label: "HTML", hint: "Single file with images, opens in any browser" },
+  { value: "csv", label: "CSV", hint: "One row per message, for spreadsheets" },
+];
+
+export interface Transcript {
+  ticket: Ticket;
+  messages: Message[];
+}
+
+const messageTime = (msg: Message) => {
+  const time = msg.timestamp || msg.created_at;
+  return time ? new Date(normalizeUTC(time)) : null;
+};
+
+// The backend stores some bot replies as raw WhatsApp JSON
+function cleanText(text: string): string {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.body) return parsed.body;
+    if (parsed?.text?.body) return parsed.text.body;
+  } catch {
+    // Not JSON
+  }
+  return text;
+}
+
+const maskPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length <= 4) return phone;
+  const prefix = phone.startsWith("+") ? `+${digits.slice(0, 2)}` : "";
+  return `${prefix}${"•".repeat(Math.max(digits.length - 6, 3))}${digits.slice(-4)}`;
+};
+
+export function redactText(text: string, redaction: TranscriptRedaction): string {
+  let result = text;
+  if (redaction.cards) {
+    result = result.replace(/\b(?:\d[ -]?){12,18}\d\b/g, (match) => `•••• ${match.replace(/\D/g, "").slice(-4)}`);
+  }
+  if (redaction.emails) {
+    result = result.replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, "[email]");
+  }
+  if (redaction.phones) {
+    result = result.replace(/\+?\d[\d ()-]{8,}\d/g, "[phone]");
+  }
+  return result;
+}
+
+export const transcriptPhone = (ticket: Ticket, redaction: TranscriptRedaction) => {
+  const phone = ticket.customer_phone || ticket.phone || "";
+  return redaction.phones ? maskPhone(phone) : phone;
+};
+
+function senderLabel(msg: Message, redaction: TranscriptRedaction): string {
+  if (msg.source === "note") return `Internal note${!redaction.agentNames && msg.author_name ? ` · ${msg.author_name}` : ""}`;
+  if (msg.ai_event) return "System";
+  if (msg.sender === "user") return "Customer";
+  if (msg.sender === "agent") return "Agent";
+  return msg.source === "broadcast" ? "Broadcast" : "Bot";
+}
+
+function messageText(msg: Message, redaction: TranscriptRedaction): string {
+  if (msg.ai_event) {
+    const event = redaction.agentNames ? { ...msg.ai_event, actor_name: null } : msg.ai_event;
+    return describeAiEvent(event);
+  }
+  const text = msg.text || msg.content ? cleanText(msg.text || msg.content || "") : describeMessage(msg);
+  return redactText(text, redaction);
+}
+
+/** Loads everything a transcript needs for one conversation, narrowed to the date window. */
+export async function loadTranscript(ticket: Ticket, options: TranscriptOptions): Promise<Transcript> {
+  const [messages, notes, aiEvents] = await Promise.all([
+    conversationsApi.getMessages(ticket._id),
+    options.includeNotes ? conversationsApi.getNotes(ticket._id) : Promise.resolve([]),
+    conversationsApi.getAiEvents(ticket._id).catch(() => []),
+  ]);
+
+  const from = options.from ? new Date(`${options.from}T00:00:00`).getTime() : -Infinity;
+  const to = options.to ? new Date(`${options.to}T23:59:59.999`).getTime() : Infinity;
+
+  const all: Message[] = [
+    ...messages.filter((msg) => msg.message_type !== "reaction"),
+    ...notes.map((note) => ({
+      id: note.id,
+      text: note.text,
+      sender: "agent" as const,
+      source: "note" as const,
+      author_name: note.author_name,
+      timestamp: note.created_at,
+    })),
+    ...aiEvents.map((event) => ({
+      id: event.id,
+      sender: "bot" as const,
+      source: "system" as const,
+      ai_event: event,
+      timestamp: event.created_at,
+    })),
+  ];
+
+  const inRange = all
+    .filter((msg) => {
+      const at = messageTime(msg)?.getTime();
+      return at === undefined || (at >= from && at <= to);
+    })
+    .sort((a, b) => (messageTime(a)?.getTime() ?? 0) - (messageTime(b)?.getTime() ?? 0));
+
+  return { ticket, messages: inRange };
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Images as data URLs, fetched through the authenticated media endpoint. Missing ones are skipped. */
+export async function loadTranscriptImages(transcripts: Transcript[]): Promise<Map<string, string>> {
+  const ids = new Set<string>();
+  for (const { messages } of transcripts) {
+    for (const msg of messages) {
+      const mediaId = msg.image_media_id || (msg.message_type === "image" ? msg.media_id : undefined);
+      if (mediaId) ids.add(mediaId);
+    }
+  }
+
+  const images = new Map<string, string>();
+  await Promise.all(
+    Array.from(ids, async (mediaId) => {
+      try {
+        const response = await sendRequest(`/api/v1/conversations/media/${mediaId}`);
+        if (!response.ok) return;
+        images.set(mediaId, await blobToDataUrl(await response.blob()));
+      } catch (error) {
+        console.warn("[transcript] Could not embed image:", mediaId, error);
+      }
+    })
+  );
+  return images;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const TRANSCRIPT_CSS = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111827; margin: 0; padding: 24px; background: #fff; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { font-size: 12px; color: #6b7280; margin-bottom: 16px; }
+  section { page-break-after: always; }
+  section:last-child { page-break-after: auto; }
+  .thread { display: flex; flex-direction: column; gap: 8px; }
+  .row { display: flex; }
+  .row.out { justify-content: flex-end; }
+  .row.center { justify-content: center; }
+  .bubble { max-width: 70%; border-radius: 8px; padding: 8px 12px; font-size: 13px; white-space: pre-wrap; word-wrap: break-word; break-inside: avoid; }
+  .in .bubble { background: #f3f4f6; }
+  .out .bubble { background: #d9fdd3; }
+  .note .bubble { background: #fef3c7; border: 1px dashed #f59e0b; }
+  .center .bubble { background: #eef2ff; color: #4338ca; font-size: 12px; max-width: 90%; }
+  .who { font-size: 11px; font-weight: 600; color: #4b5563; margin-bottom: 2px; }
+  .time { font-size: 10px; color: #6b7280; text-align: right; margin-top: 4px; }
+  .failed { color: #dc2626; }
+  img { max-width: 240px; border-radius: 6px; display: block; margin-bottom: 4px; }
+  @media print { body { padding: 0; } }
+`;
+
+function renderMessageHtml(msg: Message, options: TranscriptOptions, images: Map<string, string>): string {
+  const time = messageTime(msg);
+  const side =
+    msg.source === "note" ? "center note" : msg.ai_event ? "center" : msg.sender === "user" ? "in" : "out";
+  const mediaId = msg.image_media_id || (msg.message_type === "image" ? msg.media_id : undefined);
+  const image = options.includeImages && mediaId ? images.get(mediaId) : undefined;
+  const text = messageText(msg, options.redaction);
+
+  return `
+    <div class="row ${side}">
+      <div class="bubble">
+        <div class="who">${escapeHtml(senderLabel(msg, options.redaction))}</div>
+        ${image ? `<img src="${image}" alt="Image" />` : mediaId ? "<div>[image]</div>" : ""}
+        ${text ? `<div>${escapeHtml(text)}</div>` : ""}
+        <div class="time">
+          ${time ? format(time, "dd MMM yyyy, HH:mm") : ""}
+          ${msg.status === "failed" ? '<span class="failed"> · not delivered</span>' : ""}
+        </div>
+      </div>
+    </div>`;
+}
+
+export function buildTranscriptHtml(transcripts: Transcript[], options: TranscriptOptions, images: Map<string, string>): string {
+  const range = options.from || options.to ? `${options.from || "start"} to ${options.to || "today"}` : "Full history";
+  const sections = transcripts
+    .map(
+      ({ ticket, messages }) => `
+    <section>
+      <h1>${escapeHtml(transcriptPhone(ticket, options.redaction))}</h1>
+      <div class="meta">
+        Ticket ${escapeHtml(ticket._id)} · ${escapeHtml(ticket.status)}${ticket.order_number ? ` · Order ${escapeHtml(ticket.order_number)}` : ""}
+        · ${escapeHtml(range)} · ${messages.length} message${messages.length === 1 ? "" : "s"}
+      </div>
+      <div class="thread">${messages.map((msg) => renderMessageHtml(msg, options, images)).join("")}</div>
+    </section>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Conversation transcript</title>
+  <style>${TRANSCRIPT_CSS}</style>
+</head>
+<body>
+  <div class="meta">Exported ${format(new Date(), "dd MMM yyyy, HH:mm")}</div>
+  ${sections}
+</body>
+</html>`;
+}
+
+const CSV_COLUMNS = ["conversation_id", "customer_phone", "timestamp", "sender", "message_type", "status", "text"];
+
+// Spreadsheets run cells starting with these as formulas; customers write the text, so defuse them
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function buildTranscriptCsv(transcripts: Transcript[], options: TranscriptOptions): string {
+  const rows = transcripts.flatMap(({ ticket, messages }) =>
+    messages.map((msg) => [
+      ticket._id,
+      transcriptPhone(ticket, options.redaction),
+      messageTime(msg)?.toISOString() ?? "",
+      senderLabel(msg, options.redaction),
+      msg.ai_event ? "ai_event" : msg.message_type || "text",
+      msg.status ?? "",
+      messageText(msg, options.redaction),
+    ])
+  );
+  // BOM so Excel reads the file as UTF-8
+  return "\uFEFF" + [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => window.URL.revokeObjectURL(url), 1000);
+}
+
+/** Prints the page from a hidden frame, so the agent can save it as PDF. */
+export function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // print() blocks until the dialog closes in most browsers
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
+
+export const transcriptFilename = (transcripts: Transcript[], extension: string) => {
+  const date = format(new Date(), "yyyy-MM-dd");
+  const name = transcripts.length === 1 ? transcripts[0].ticket._id.slice(-8) : `${transcripts.length}-conversations`;
+  return `transcript-${name}-${date}.${extension}`;
+};
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * The backend mostly sends naive UTC timestamps ("2026-01-01T10:00:00"); give
+ * those a "Z" so they aren't read as local time. Timestamps that already carry
+ * "Z" or an offset, and plain dates, are returned unchanged.
+ */
+export function normalizeUTC(dateStr: string): string {
+  if (/(?:Z|[+-]\d{2}:?\d{2})$/i.test(dateStr) || !/\d:\d{2}/.test(dateStr)) return dateStr;
+  return `${dateStr}Z`;
+}
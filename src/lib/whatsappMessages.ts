@@ -0,0 +1,156 @@
+import type { Message } from "./apiClient";
+
+// Typed views over the WhatsApp payloads the backend passes through on
+// messages. The payload sits under a key named after message_type (the
+// Cloud API webhook shape), or under metadata for older messages.
+
+export interface MediaPayload {
+  id: string;
+  mime_type?: string;
+  caption?: string;
+  filename?: string;
+  // audio: recorded voice note rather than an audio file
+  voice?: boolean;
+  // sticker
+  animated?: boolean;
+}
+
+export interface LocationPayload {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+export interface ContactPayload {
+  name?: { formatted_name?: string; first_name?: string; last_name?: string };
+  phones?: { phone?: string; wa_id?: string; type?: string }[];
+  emails?: { email?: string; type?: string }[];
+  org?: { company?: string; title?: string };
+}
+
+interface InteractiveRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface InteractivePayload {
+  // Customer replies: button_reply / list_reply. Our own outbound menus: button / list / product / product_list
+  type: string;
+  button_reply?: { id: string; title: string };
+  list_reply?: InteractiveRow;
+  header?: { type?: string; text?: string };
+  body?: { text?: string };
+  footer?: { text?: string };
+  action?: {
+    button?: string;
+    buttons?: { reply?: { id: string; title: string } }[];
+    sections?: { title?: string; rows?: InteractiveRow[]; product_items?: { product_retailer_id: string }[] }[];
+    catalog_id?: string;
+    product_retailer_id?: string;
+  };
+}
+
+// Quick-reply tap on a template button
+export interface ButtonPayload {
+  text: string;
+  payload?: string;
+}
+
+export interface OrderPayload {
+  catalog_id?: string;
+  text?: string;
+  product_items: { product_retailer_id: string; quantity: number; item_price?: number; currency?: string }[];
+}
+
+export interface ReactionPayload {
+  message_id: string;
+  // Empty when the customer removed their reaction
+  emoji?: string;
+}
+
+// Present when the customer swiped to reply to an earlier message
+export interface ContextPayload {
+  id?: string;
+  from?: string;
+}
+
+// Media types whose id lives under the type key (or flat as media_id)
+export const FILE_MESSAGE_TYPES = ["audio", "video", "document", "sticker"];
+
+// Types rendered entirely from their payload; the backend's text for them is a placeholder
+const STRUCTURED_TYPES = ["sticker", "location", "contacts", "interactive", "button", "order"];
+
+export function getPayload<T>(msg: Message, key: string): T | null {
+  const raw = msg as unknown as Record<string, unknown>;
+  const metadata = raw.metadata as Record<string, unknown> | undefined;
+  return ((raw[key] ?? metadata?.[key]) as T) || null;
+}
+
+/** True when MessageBody renders the message's content, so the plain text line should be hidden. */
+export function rendersOwnText(msg: Message): boolean {
+  return STRUCTURED_TYPES.includes(msg.message_type) && !!getPayload(msg, msg.message_type);
+}
+
+// WhatsApp message id (what reactions and replies point at), falling back to our own id
+export function getMessageKey(msg: Message): string | undefined {
+  const raw = msg as unknown as Record<string, unknown>;
+  return (raw.wamid as string) || (raw.whatsapp_message_id as string) || msg.id || msg._id;
+}
+
+/** Emojis per target message, last reaction per sender wins (WhatsApp semantics). */
+export function buildReactionIndex(messages: Message[]): Map<string, string[]> {
+  const latest = new Map<string, string>();
+  for (const msg of messages) {
+    if (msg.message_type !== "reaction") continue;
+    const reaction = getPayload<ReactionPayload>(msg, "reaction");
+    if (!reaction?.message_id) continue;
+    latest.set(`${reaction.message_id}|${msg.sender}`, reaction.emoji ?? "");
+  }
+  const index = new Map<string, string[]>();
+  latest.forEach((emoji, key) => {
+    if (!emoji) return;
+    const target = key.split("|")[0];
+    index.set(target, [...(index.get(target) ?? []), emoji]);
+  });
+  return index;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  image: "📷 Photo",
+  video: "🎥 Video",
+  audio: "🎵 Audio",
+  document: "📄 Document",
+  sticker: "Sticker",
+  location: "📍 Location",
+  contacts: "👤 Contact",
+  order: "🛒 Order",
+};
+
+/** One-line summary of a message, for reply quotes. */
+export function describeMessage(msg: Message): string {
+  const text = msg.text || msg.content;
+  if (text) return text;
+  if (msg.message_type === "audio" && getPayload<MediaPayload>(msg, "audio")?.voice) return "🎤 Voice note";
+  if (msg.message_type === "document") {
+    const filename = msg.filename || getPayload<MediaPayload>(msg, "document")?.filename;
+    if (filename) return `📄 ${filename}`;
+  }
+  return TYPE_LABELS[msg.message_type ?? ""] ?? "Message";
+}
+
+// The customer controls location.url, so anything but a web link (javascript:, data:...) is ignored
+const isWebUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const mapsUrl = (location: LocationPayload) =>
+  location.url && isWebUrl(location.url)
+    ? location.url
+    : `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
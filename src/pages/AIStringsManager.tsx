@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { useBusiness } from "@/contexts/BusinessContext";
-import { apiRequest } from "@/lib/api";
+import { knowledgeBaseApi, stringsApi, KnowledgeBaseConfig, KnowledgeEntry, StringItem } from "@/lib/apiClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
@@ -22,27 +22,6 @@ import {
 import { toast } from "sonner";
 import StringPreviewCard from "@/components/strings/StringPreviewCard";
 
-interface StringItem {
-  key: string;
-  value: string;
-}
-
-interface StringsResponse {
-  strings: StringItem[];
-}
-
-interface KnowledgeEntry {
-  value: string;
-  triggers: string[];
-  enabled: boolean;
-}
-
-interface KnowledgeBaseConfig {
-  social_media: Record<string, KnowledgeEntry>;
-  policies: Record<string, KnowledgeEntry>;
-  locations: { store_address: string; operating_hours: string };
-}
-
 const PERSONA_KEYS = ["FEELORI_SYSTEM_PROMPT", "GOLDEN_SYSTEM_PROMPT"];
 const QUICK_RESPONSE_PREFIXES = ["ERROR_", "HUMAN_", "NO_ORDERS_", "ORDER_NUMBER_", "WELCOME_"];
 
@@ -111,8 +90,7 @@ export default function AIStringsManager() {
     setLoading(true);
     try {
       // Fetch strings
-      const stringsResponse = await apiRequest<{ data: { strings: StringItem[] } }>("/api/v1/admin/strings");
-      const filteredStrings = (stringsResponse.data?.strings || []).filter(
+      const filteredStrings = (await stringsApi.list()).filter(
         (item: StringItem) => item.key !== 'PACKING_DEPT_REDIRECT'
       );
       setStrings(filteredStrings);
@@ -120,8 +98,7 @@ export default function AIStringsManager() {
       
       // Fetch knowledge base
       try {
-        const kbResponse = await apiRequest<{ data: KnowledgeBaseConfig }>(`/api/v1/knowledge-base/${selectedBusiness}`);
-        const kbData = kbResponse.data || DEFAULT_KNOWLEDGE_BASE;
+        const kbData = (await knowledgeBaseApi.get(selectedBusiness)) || DEFAULT_KNOWLEDGE_BASE;
         setKnowledgeBase(kbData);
         setOriginalKnowledgeBase(kbData);
       } catch {
@@ -142,10 +119,7 @@ export default function AIStringsManager() {
     
     setSavingKB(true);
     try {
-      await apiRequest(`/api/v1/knowledge-base/${selectedBusiness}`, {
-        method: "PATCH",
-        body: JSON.stringify(knowledgeBase),
-      });
+      await knowledgeBaseApi.save(selectedBusiness, knowledgeBase);
       setOriginalKnowledgeBase({ ...knowledgeBase });
       toast.success("Knowledge Base saved successfully");
     } catch (error) {
@@ -231,10 +205,7 @@ export default function AIStringsManager() {
 
     setSaving(true);
     try {
-      await apiRequest("/api/v1/admin/strings", {
-        method: "PUT",
-        body: JSON.stringify({ strings }),
-      });
+      await stringsApi.save(strings);
       setOriginalStrings([...strings]);
       toast.success("Strings saved successfully");
     } catch (error) {
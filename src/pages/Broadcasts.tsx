@@ -1,7 +1,10 @@
 import { useState, useEffect } from "react";
 import { useBusiness } from "@/contexts/BusinessContext";
-import { apiRequest, ApiError, getBroadcastGroups, BroadcastGroup } from "@/lib/api";
+import { ApiError } from "@/lib/api";
+import { broadcastsApi, BroadcastConfig, BroadcastGroup, BroadcastJob, BroadcastResult } from "@/lib/apiClient";
+import { buildTemplatePayload, EMPTY_TEMPLATE_PARAMS, getTemplatePreviewText, templateHasButton, TemplateParams } from "@/lib/templates";
 import { AudienceDialog } from "@/components/broadcast/AudienceDialog";
+import { TemplateParamsFields } from "@/components/broadcast/TemplateParamsFields";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
@@ -50,46 +53,6 @@ import { useToast } from "@/hooks/use-toast";
 import { Radio, Loader2, Send, RefreshCw, History, Megaphone, Eye, Smartphone, Image, Video, ShieldCheck, TriangleAlert, ChevronLeft, ChevronRight, Inbox } from "lucide-react";
 import { format, differenceInDays } from "date-fns";
 
-// Types for API responses
-interface Template {
-  id: string;
-  name: string;
-  header?: string;
-  body?: string;
-  version?: string;
-  last_verified?: string;
-}
-
-interface Audience {
-  id: string;
-  name: string;
-  count?: number;
-}
-
-interface BroadcastConfig {
-  allowed_templates: Template[];
-  audiences: Audience[];
-}
-
-interface BroadcastJob {
-  id: string;
-  created_at: string;
-  template_name: string;
-  audience_name: string;
-  sent_count: number;
-  delivered_count?: number;
-  read_count?: number;
-  failed_count?: number;
-  total_recipients?: number;
-  status: "pending" | "processing" | "completed" | "failed";
-}
-
-interface BroadcastResult {
-  sent: number;
-  failed: number;
-  job_id?: string;
-}
-
 export default function Broadcasts() {
   const { businessId } = useBusiness();
   const { toast } = useToast();
@@ -125,11 +88,7 @@ export default function Broadcasts() {
   const itemsPerPage = 5;
 
   // Dynamic template inputs
-  const [headerMediaUrl, setHeaderMediaUrl] = useState("");
-  const [buttonSuffix, setButtonSuffix] = useState("");
-  const [discountPercent, setDiscountPercent] = useState("");
-  const [couponCode, setCouponCode] = useState("");
-  const [expiryDate, setExpiryDate] = useState("");
+  const [templateParams, setTemplateParams] = useState<TemplateParams>(EMPTY_TEMPLATE_PARAMS);
 
   // Fetch config on mount + auto-refresh history
   useEffect(() => {
@@ -148,7 +107,7 @@ export default function Broadcasts() {
 
   const loadGroups = async () => {
     try {
-      const data = await getBroadcastGroups();
+      const data = await broadcastsApi.getGroups();
       setGroups(data);
     } catch (error) {
       console.error("Failed to load broadcast groups:", error);
@@ -158,32 +117,7 @@ export default function Broadcasts() {
   const fetchConfig = async () => {
     setConfigLoading(true);
     try {
-      const response = await apiRequest<any>(
-        `/api/v1/broadcasts/config?business_id=${businessId}`
-      );
-      
-      // FIX: Look inside 'response.data' first, then fallback to 'response'
-      const payload = response.data || response;
-      
-      // 1. Get the raw list
-      const rawTemplates = payload.templates || payload.allowed_templates || [];
-      
-      // 2. Transform strings into objects
-      const allowed_templates = rawTemplates.map((t: any) => {
-        if (typeof t === 'string') {
-          return {
-            id: t,
-            name: t
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, (l) => l.toUpperCase())
-          };
-        }
-        return t;
-      });
-      
-      // 3. Set State
-      const audiences = Array.isArray(payload.audiences) ? payload.audiences : [];
-      setConfig({ allowed_templates, audiences });
+      setConfig(await broadcastsApi.getConfig(businessId));
     } catch (error) {
       console.error("Config fetch error:", error);
       toast({
@@ -199,27 +133,7 @@ export default function Broadcasts() {
   const fetchHistory = async () => {
     setHistoryLoading(true);
     try {
-      const response = await apiRequest<any>(
-        `/api/v1/broadcasts/history?business_id=${businessId}`
-      );
-      
-      // FIX: Look inside 'response.data' first, then fallback to 'response'
-      const data = response.data || response;
-      
-      // Safely extract jobs array from various response structures
-      let jobs: BroadcastJob[] = [];
-      if (Array.isArray(data)) {
-        // Handle Tuple: [[job1, job2], {pagination}]
-        if (data.length > 0 && Array.isArray(data[0])) {
-          jobs = data[0];
-        } else {
-          jobs = data; // It's just a flat array
-        }
-      } else if (data?.jobs && Array.isArray(data.jobs)) {
-        // Handle Object: { jobs: [...], pagination: ... }
-        jobs = data.jobs;
-      }
-      setHistory(jobs);
+      setHistory(await broadcastsApi.getHistory(businessId));
     } catch (error) {
       console.error("History fetch error:", error);
       toast({
@@ -254,16 +168,13 @@ export default function Broadcasts() {
 
     setIsSendingTest(true);
     try {
-      await apiRequest("/api/v1/broadcasts/send", {
-        method: "POST",
-        body: JSON.stringify({
-          business_id: businessId,
-          template_name: selectedTemplate,
-          audience_type: "custom",
-          is_test: true,
-          test_phone: testPhone.trim(),
-          params: getTemplatePayload(),
-        }),
+      await broadcastsApi.send({
+        business_id: businessId,
+        template_name: selectedTemplate,
+        audience_type: "custom",
+        is_test: true,
+        test_phone: testPhone.trim(),
+        params: buildTemplatePayload(selectedTemplate, templateParams),
       });
 
       toast({
@@ -289,14 +200,11 @@ export default function Broadcasts() {
     setIsSending(true);
 
     try {
-      const response = await apiRequest<BroadcastResult>("/api/v1/broadcasts/send", {
-        method: "POST",
-        body: JSON.stringify({
-          business_id: businessId,
-          template_name: selectedTemplate,
-          audience_type: selectedAudience,
-          params: getTemplatePayload(),
-        }),
+      const response = await broadcastsApi.send({
+        business_id: businessId,
+        template_name: selectedTemplate,
+        audience_type: selectedAudience,
+        params: buildTemplatePayload(selectedTemplate, templateParams),
       });
 
       setResult(response);
@@ -305,7 +213,7 @@ export default function Broadcasts() {
       // Reset form and refresh history
       setSelectedTemplate("");
       setSelectedAudience("");
-      resetDynamicInputs();
+      setTemplateParams(EMPTY_TEMPLATE_PARAMS);
       fetchHistory();
     } catch (error) {
       const message = error instanceof ApiError ? error.message : "Broadcast failed";
@@ -329,231 +237,6 @@ export default function Broadcasts() {
     (a) => a.id === selectedAudience
   );
 
-  // Reset dynamic inputs when template changes
-  const resetDynamicInputs = () => {
-    setHeaderMediaUrl("");
-    setButtonSuffix("");
-    setDiscountPercent("");
-    setCouponCode("");
-    setExpiryDate("");
-  };
-
-  // Build template-specific payload
-  const getTemplatePayload = () => {
-    switch (selectedTemplate) {
-      case "new_arrival_showcase":
-        return {
-          header_image_url: headerMediaUrl,
-          button_url_suffix: buttonSuffix,
-          body_params: ["{{name}}"],
-        };
-      case "video_collection_launch":
-        return {
-          header_video_url: headerMediaUrl,
-          button_url_suffix: buttonSuffix,
-          body_params: ["{{name}}"],
-        };
-      case "festival_sale_alert":
-        return {
-          body_params: ["{{name}}", discountPercent, couponCode, expiryDate],
-          button_url_suffix: buttonSuffix,
-        };
-      case "gentle_greeting_v1":
-        return {
-          body_params: ["{{name}}"],
-        };
-      default:
-        return {};
-    }
-  };
-
-  // Render dynamic inputs based on selected template
-  const renderDynamicInputs = () => {
-    switch (selectedTemplate) {
-      case "new_arrival_showcase":
-        return (
-          <div className="space-y-4 pt-4 border-t border-border">
-            <div className="space-y-2">
-              <Label htmlFor="header-image" className="text-sm font-medium">
-                Header Image URL
-              </Label>
-              <Input
-                id="header-image"
-                type="url"
-                placeholder="https://example.com/image.jpg"
-                value={headerMediaUrl}
-                onChange={(e) => setHeaderMediaUrl(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <Label htmlFor="link-suffix" className="text-sm font-medium">
-                  Link Suffix
-                </Label>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <span className="text-xs text-muted-foreground cursor-help">(?)</span>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Appended to your base URL (e.g., 'collections/new')</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              </div>
-              <Input
-                id="link-suffix"
-                type="text"
-                placeholder="collections/new"
-                value={buttonSuffix}
-                onChange={(e) => setButtonSuffix(e.target.value)}
-              />
-            </div>
-          </div>
-        );
-      case "video_collection_launch":
-        return (
-          <div className="space-y-4 pt-4 border-t border-border">
-            <div className="space-y-2">
-              <Label htmlFor="header-video" className="text-sm font-medium">
-                Header Video URL
-              </Label>
-              <Input
-                id="header-video"
-                type="url"
-                placeholder="https://example.com/video.mp4"
-                value={headerMediaUrl}
-                onChange={(e) => setHeaderMediaUrl(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <Label htmlFor="link-suffix-video" className="text-sm font-medium">
-                  Link Suffix
-                </Label>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <span className="text-xs text-muted-foreground cursor-help">(?)</span>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Appended to your base URL (e.g., 'collections/sale')</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              </div>
-              <Input
-                id="link-suffix-video"
-                type="text"
-                placeholder="collections/sale"
-                value={buttonSuffix}
-                onChange={(e) => setButtonSuffix(e.target.value)}
-              />
-            </div>
-          </div>
-        );
-      case "festival_sale_alert":
-        return (
-          <div className="space-y-4 pt-4 border-t border-border">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="discount" className="text-sm font-medium">
-                  Discount %
-                </Label>
-                <Input
-                  id="discount"
-                  type="text"
-                  placeholder="20"
-                  value={discountPercent}
-                  onChange={(e) => setDiscountPercent(e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="coupon" className="text-sm font-medium">
-                  Coupon Code
-                </Label>
-                <Input
-                  id="coupon"
-                  type="text"
-                  placeholder="SALE20"
-                  value={couponCode}
-                  onChange={(e) => setCouponCode(e.target.value)}
-                />
-              </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="expiry" className="text-sm font-medium">
-                Expiry Date
-              </Label>
-              <Input
-                id="expiry"
-                type="text"
-                placeholder="Dec 31, 2024"
-                value={expiryDate}
-                onChange={(e) => setExpiryDate(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <Label htmlFor="link-suffix-sale" className="text-sm font-medium">
-                  Link Suffix
-                </Label>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <span className="text-xs text-muted-foreground cursor-help">(?)</span>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Appended to your base URL (e.g., 'collections/sale')</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              </div>
-              <Input
-                id="link-suffix-sale"
-                type="text"
-                placeholder="collections/sale"
-                value={buttonSuffix}
-                onChange={(e) => setButtonSuffix(e.target.value)}
-              />
-            </div>
-          </div>
-        );
-      case "gentle_greeting_v1":
-        return (
-          <div className="pt-4 border-t border-border">
-            <p className="text-sm text-muted-foreground">
-              No additional inputs required for this template.
-            </p>
-          </div>
-        );
-      default:
-        return null;
-    }
-  };
-
-  // Live preview text helper
-  const getPreviewText = (templateBody: string): string => {
-    if (!templateBody) return "";
-    
-    let text = templateBody;
-    
-    // Replace {{1}} with placeholder name
-    text = text.replace(/\{\{1\}\}/g, "Shanaya");
-    
-    // Template-specific replacements
-    if (selectedTemplate === "festival_sale_alert") {
-      text = text.replace(/\{\{2\}\}/g, discountPercent || "..");
-      text = text.replace(/\{\{3\}\}/g, couponCode || "..");
-      text = text.replace(/\{\{4\}\}/g, expiryDate || "..");
-    }
-    
-    return text;
-  };
-
-  // Check if template has a button (all except gentle_greeting)
-  const hasButton = selectedTemplate && selectedTemplate !== "gentle_greeting_v1";
-
   const getStatusBadge = (status: BroadcastJob["status"]) => {
     switch (status) {
       case "completed":
@@ -627,7 +310,9 @@ export default function Broadcasts() {
                 </div>
 
                 {/* Dynamic Template Inputs */}
-                {selectedTemplate && renderDynamicInputs()}
+                {selectedTemplate && (
+                  <TemplateParamsFields templateId={selectedTemplate} params={templateParams} onChange={setTemplateParams} />
+                )}
 
                 {/* Audience Selector */}
                 <div className="space-y-2">
@@ -784,9 +469,9 @@ export default function Broadcasts() {
                   {selectedTemplateData.header && (
                     <div className="mb-2">
                       {selectedTemplateData.header === "IMAGE" ? (
-                        headerMediaUrl ? (
+                        templateParams.header_media_url ? (
                           <img 
-                            src={headerMediaUrl} 
+                            src={templateParams.header_media_url} 
                             alt="Header" 
                             className="w-full h-32 object-cover rounded-md"
                           />
@@ -809,7 +494,7 @@ export default function Broadcasts() {
 
                   {/* Body */}
                   <p className="text-sm text-gray-900 whitespace-pre-wrap">
-                    {getPreviewText(selectedTemplateData.body || "Template body content...")}
+                    {getTemplatePreviewText(selectedTemplate, selectedTemplateData.body || "Template body content...", templateParams)}
                   </p>
 
                   {/* Footer Timestamp */}
@@ -819,7 +504,7 @@ export default function Broadcasts() {
                 </div>
 
                 {/* Button (outside the bubble) */}
-                {hasButton && (
+                {templateHasButton(selectedTemplate) && (
                   <div className="max-w-[280px]">
                     <div className="bg-[#dcf8c6] rounded-lg p-2 text-center border-t border-[#c5e8b0]">
                       <span className="text-sm text-blue-600 font-medium">Visit Website</span>
@@ -886,7 +571,7 @@ export default function Broadcasts() {
                       const startIndex = (currentPage - 1) * itemsPerPage;
                       const paginatedHistory = history.slice(startIndex, startIndex + itemsPerPage);
                       
-                      return paginatedHistory.map((job: any) => {
+                      return paginatedHistory.map((job) => {
                         const total = job.total_recipients || job.sent_count || 1;
                         const delivered = job.delivered_count || 0;
                         const read = job.read_count || 0;
@@ -1,71 +1,82 @@
-import { useState, useEffect, useCallback } from "react";
-import { apiRequest, ApiError, getConversations, ConversationSummary, APIResponse } from "@/lib/api";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { ApiError } from "@/lib/api";
+import {
+  AiEvent,
+  AiPause,
+  conversationsApi,
+  ConversationFilters,
+  ConversationSearchResult,
+  ConversationSummary,
+  ConversationTagging,
+  InternalNote,
+  Message,
+  Resolution,
+  SchemaError,
+} from "@/lib/apiClient";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { useBusiness } from "@/contexts/BusinessContext";
 import { TicketQueue } from "@/components/cockpit/TicketQueue";
 import { ActiveChat } from "@/components/cockpit/ActiveChat";
 import { Ticket } from "@/components/cockpit/TicketCard";
-import { Message } from "@/components/cockpit/ChatMessages";
+import { SendAttachmentOptions } from "@/components/cockpit/MessageInput";
+import { primeMediaUrl } from "@/hooks/use-media-url";
+import { getMediaType } from "@/lib/attachments";
 import { Bug } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { normalizeUTC } from "@/lib/utils";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useRegisterCommands } from "@/hooks/use-commands";
+import { Command } from "@/lib/commands";
+import { RealtimeEvent } from "@/lib/realtime";
+import { useOutbox } from "@/hooks/use-outbox";
+import { deliverMessage, discardMessage, enqueueMessage, flushOutbox, getOutbox, OutboxEntry } from "@/lib/outbox";
+import {
+  BUILT_IN_VIEWS,
+  CUSTOM_VIEW_ID,
+  DEFAULT_VIEW_ID,
+  loadSavedViews,
+  matchesFilters,
+  QueueView,
+  storeSavedViews,
+} from "@/lib/queueViews";
+import { DEFAULT_AI_PAUSE, describeAiEvent } from "@/lib/aiHandoff";
+import { applyStatusUpdate, describeDeliveryFailure, isSameMessage } from "@/lib/deliveryStatus";
+import { applyBulkAction, BulkAction, bulkActionPatch, describeBulkAction, runInBatches, undoBulkAction } from "@/lib/bulkActions";
 
-// Smart extractor: finds messages in various API response structures
-function extractMessagesFromResponse(response: any): { messages: Message[]; source: string; raw: any } {
-  let msgs: any[] = [];
-  let source = "not_found";
-
-  // Try common API response structures
-  if (Array.isArray(response?.data?.messages)) {
-    msgs = response.data.messages;
-    source = "response.data.messages";
-  } else if (Array.isArray(response?.messages)) {
-    msgs = response.messages;
-    source = "response.messages";
-  } else if (Array.isArray(response)) {
-    msgs = response;
-    source = "root_array";
-  } else if (Array.isArray(response?.data)) {
-    msgs = response.data;
-    source = "response.data";
-  } else if (Array.isArray(response?.data?.items)) {
-    msgs = response.data.items;
-    source = "response.data.items";
-  } else if (Array.isArray(response?.data?.conversation?.messages)) {
-    msgs = response.data.conversation.messages;
-    source = "response.data.conversation.messages";
-  } else if (Array.isArray(response?.conversation?.messages)) {
-    msgs = response.conversation.messages;
-    source = "response.conversation.messages";
-  }
+// Ticket list refresh interval while the realtime socket is down
+const QUEUE_POLL_INTERVAL = 15000;
 
-  // Normalize: ensure text, timestamp, and sender exist
-  const normalized = msgs.map((m) => {
-    // Derive sender from various API formats
-    let sender = m.sender;
-    if (!sender) {
-      if (m.direction === "inbound") sender = "user";
-      else if (m.direction === "outbound") {
-        // Determine if bot or agent based on source
-        sender = m.source === "agent" ? "agent" : "bot";
-      }
-      else if (m.source === "customer") sender = "user";
-      else if (m.source === "bot" || m.source === "ai") sender = "bot";
-      else if (m.source === "agent") sender = "agent";
-      else sender = "bot"; // Default fallback
-    }
-    
-    return {
-      ...m,
-      sender,
-      text: m.text || m.content || m.body || "",
-      timestamp: m.timestamp || m.created_at || new Date().toISOString(),
-    };
-  });
+// How long the Undo button stays up after a bulk action
+const BULK_UNDO_WINDOW_MS = 10000;
 
-  return { messages: normalized, source, raw: response };
-}
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Convert ConversationSummary to Ticket format for compatibility
+const toTicket = (conv: ConversationSummary): Ticket => ({
+  _id: conv.id,
+  phone: conv.phone,
+  preview: conv.preview,
+  status: conv.status,
+  last_at: conv.last_at,
+  ai_enabled: conv.ai_enabled,
+  ai_paused_by: conv.ai_paused_by,
+  ai_pause_reason: conv.ai_pause_reason,
+  ai_resume_at: conv.ai_resume_at,
+  assigned_to: conv.assigned_to,
+  assigned_to_username: conv.assigned_to_username,
+  unread_count: conv.unread_count,
+  last_read_at: conv.last_read_at,
+  first_response_due_at: conv.first_response_due_at,
+  resolution_due_at: conv.resolution_due_at,
+  issue_type: conv.issue_type ?? undefined,
+  tags: conv.tags,
+  disposition: conv.disposition,
+});
 
 export default function Conversations() {
   const { toast } = useToast();
@@ -75,13 +86,26 @@ export default function Conversations() {
   const isMobile = useIsMobile();
 
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
-  const [filter, setFilter] = useState("all");
-  const [optimisticMessages, setOptimisticMessages] = useState<Message[]>([]);
+  const [viewId, setViewId] = useState(DEFAULT_VIEW_ID);
+  const [filters, setFilters] = useState<ConversationFilters>(
+    BUILT_IN_VIEWS.find((v) => v.id === DEFAULT_VIEW_ID).filters
+  );
+  const [savedViews, setSavedViews] = useState<QueueView[]>([]);
+  const views = [...BUILT_IN_VIEWS, ...savedViews];
+  // Stable dependency for effects; the filters object is recreated on every edit
+  const filtersKey = JSON.stringify(filters);
+  const outbox = useOutbox(businessId);
 
   // Debug state
   const [showDebug, setShowDebug] = useState(false);
-  const [lastApiResponse, setLastApiResponse] = useState<any>(null);
-  const [extractionSource, setExtractionSource] = useState("");
+
+  // Search state
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+
+  // Read marker captured when a conversation with unread messages is opened (for the divider)
+  const [readMarker, setReadMarker] = useState<string | null>(null);
 
   // Cursor pagination state
   const [allConversations, setAllConversations] = useState<ConversationSummary[]>([]);
@@ -90,46 +114,34 @@ export default function Conversations() {
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isError, setIsError] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
+  // Set once "Load more" has run; silent refreshes then merge page 1 instead of replacing the list
+  const hasLoadedMoreRef = useRef(false);
 
-  // Convert ConversationSummary to Ticket format for compatibility
-  const allTickets: Ticket[] = allConversations.map((conv) => ({
-    _id: conv.id,
-    phone: conv.phone,
-    preview: conv.preview,
-    status: conv.status,
-    last_at: conv.last_at,
-    ai_enabled: conv.ai_enabled,
-    ai_paused_by: conv.ai_paused_by,
-    assigned_to: conv.assigned_to,
-    assigned_to_username: conv.assigned_to_username,
-  }));
+  // Filtering happens server-side; re-check locally so tickets leave the view as soon as they stop matching
+  const ticketsData: Ticket[] = allConversations
+    .filter((conv) => matchesFilters(conv, filters, user?.id))
+    .map(toTicket);
 
-  // Apply client-side filtering based on filter value
-  const ticketsData: Ticket[] = allTickets.filter((ticket) => {
-    if (filter === "all") {
-      return ticket.status === "open" && (ticket.ai_enabled === false || ticket.ai_paused_by != null);
-    }
-    if (filter === "pending") {
-      return ticket.status === "open" && ticket.ai_enabled === true && ticket.ai_paused_by === null;
+  // Initial fetch (silent refreshes skip the skeleton and keep the list on error)
+  const fetchInitial = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) {
+      setIsLoadingInitial(true);
+      setIsError(false);
     }
-    if (filter === "resolved") {
-      return ticket.status === "resolved";
-    }
-    return true;
-  });
-
-  // Initial fetch
-  const fetchInitial = async () => {
-    setIsLoadingInitial(true);
-    setIsError(false);
     setIsFetching(true);
     try {
-      const statusParam = filter === "resolved" ? "resolved" : "open";
-      const response = await getConversations(null, 50, statusParam);
-      setAllConversations(response.data);
-      setNextCursor(response.next_cursor);
+      const response = await conversationsApi.list(null, 50, filters);
+      if (silent && hasLoadedMoreRef.current) {
+        // Keep the older pages (and the cursor past them) so the list doesn't shrink under the agent
+        const refreshedIds = new Set(response.data.map((conv) => conv.id));
+        setAllConversations((prev) => [...response.data, ...prev.filter((conv) => !refreshedIds.has(conv.id))]);
+      } else {
+        hasLoadedMoreRef.current = false;
+        setAllConversations(response.data);
+        setNextCursor(response.next_cursor);
+      }
     } catch {
-      setIsError(true);
+      if (!silent) setIsError(true);
     } finally {
       setIsLoadingInitial(false);
       setIsFetching(false);
@@ -141,9 +153,9 @@ export default function Conversations() {
     if (!nextCursor || isLoadingMore) return;
     setIsLoadingMore(true);
     try {
-      const statusParam = filter === "resolved" ? "resolved" : "open";
-      const response = await getConversations(nextCursor, 50, statusParam);
-      setAllConversations((prev) => [...prev, ...response.data]);
+      const response = await conversationsApi.list(nextCursor, 50, filters);
+      hasLoadedMoreRef.current = true;
+      setAllConversations((prev) => [...prev, ...response.data.filter((conv) => !prev.some((c) => c.id === conv.id))]);
       setNextCursor(response.next_cursor);
     } catch {
       toast({ variant: "destructive", title: "Error", description: "Failed to load more" });
@@ -155,58 +167,327 @@ export default function Conversations() {
   // Fetch on mount, filter change, or business change
   useEffect(() => {
     setSelectedTicket(null);
-    setOptimisticMessages([]);
     fetchInitial();
-  }, [filter, businessId]);
+  }, [filtersKey, businessId]);
 
   const handleRefresh = () => {
     fetchInitial();
   };
 
-  // Fetch messages for selected ticket using smart extractor
+  // Saved views are per agent
+  const userId = user?.id;
+  useEffect(() => {
+    setSavedViews(userId ? loadSavedViews(userId) : []);
+  }, [userId]);
+
+  const handleViewChange = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    if (!view) return;
+    setViewId(id);
+    setFilters(view.filters);
+  };
+
+  const handleFiltersChange = (next: ConversationFilters) => {
+    setFilters(next);
+    setViewId(CUSTOM_VIEW_ID);
+  };
+
+  const updateSavedViews = (next: QueueView[]) => {
+    setSavedViews(next);
+    if (user) storeSavedViews(user.id, next);
+  };
+
+  const handleSaveView = (name: string) => {
+    const view: QueueView = { id: crypto.randomUUID(), name, filters };
+    updateSavedViews([...savedViews, view]);
+    setViewId(view.id);
+    toast({ title: "View saved", description: `"${name}" is now in your views` });
+  };
+
+  const handleDeleteView = (id: string) => {
+    updateSavedViews(savedViews.filter((v) => v.id !== id));
+    handleViewChange(DEFAULT_VIEW_ID);
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const isSearchActive = debouncedSearch.length >= SEARCH_MIN_LENGTH;
+
+  const {
+    data: searchResults,
+    isLoading: isSearching,
+    isError: isSearchError,
+  } = useQuery({
+    queryKey: ["conversation-search", businessId, debouncedSearch],
+    queryFn: () => conversationsApi.search(debouncedSearch),
+    enabled: isSearchActive,
+  });
+
+  // Move this agent's read marker to now; the server tracks markers per agent
+  const markConversationRead = useCallback((id: string) => {
+    setAllConversations((prev) =>
+      prev.map((conv) =>
+        conv.id === id ? { ...conv, unread_count: 0, last_read_at: new Date().toISOString() } : conv
+      )
+    );
+    conversationsApi
+      .markRead(id)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["unread-total"] }))
+      .catch((error) => console.warn("[Cockpit] Failed to mark conversation read:", error));
+  }, [queryClient]);
+
+  const openConversation = useCallback((ticket: Ticket) => {
+    setSelectedTicket(ticket);
+    setReadMarker(ticket.unread_count ? ticket.last_read_at ?? null : null);
+    if (ticket.unread_count) markConversationRead(ticket._id);
+  }, [markConversationRead]);
+
+  // Clicking a desktop notification routes here with the conversation to open
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The command palette also sends the conversation itself, which may not be in the loaded queue
+  const locationState = location.state as { conversationId?: string; conversation?: ConversationSummary } | null;
+  const requestedConversationId = locationState?.conversationId;
+  const requestedConversation = locationState?.conversation;
+  useEffect(() => {
+    if (!requestedConversationId || isLoadingInitial) return;
+    const conv = allConversations.find((c) => c.id === requestedConversationId) ?? requestedConversation;
+    if (conv) {
+      openConversation(toTicket(conv));
+      setFocusMessageId(null);
+    } else {
+      // Notifications only carry the id, and filters or paging can hide the ticket
+      conversationsApi
+        .get(requestedConversationId)
+        .then((summary) => {
+          openConversation(toTicket(summary));
+          setFocusMessageId(null);
+        })
+        .catch((error) => {
+          console.error("[Cockpit] Failed to open conversation:", error);
+          toast({ variant: "destructive", title: "Error", description: "Could not open that conversation" });
+        });
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [
+    requestedConversationId,
+    requestedConversation,
+    isLoadingInitial,
+    allConversations,
+    location.pathname,
+    navigate,
+    openConversation,
+    toast,
+  ]);
+
+  const handleSelectSearchResult = (result: ConversationSearchResult) => {
+    const listed = allConversations.find((c) => c.id === result.conversation.id);
+    openConversation(toTicket(listed ?? result.conversation));
+    setFocusMessageId(result.message_id);
+  };
+
+  // Apply pushed events to the ticket list and the messages cache
+  const handleRealtimeEvent = (event: RealtimeEvent) => {
+    switch (event.type) {
+      case "message.created": {
+        const { message } = event;
+        const messageId = message.id || message._id;
+        queryClient.setQueryData<Message[]>(["messages", event.conversation_id], (prev) => {
+          if (!prev) return prev;
+          if (messageId && prev.some((m) => (m.id || m._id) === messageId)) return prev;
+          return [...prev, message];
+        });
+        updateConversationOptimistically(event.conversation_id, {
+          preview: message.text,
+          last_at: message.timestamp,
+        });
+        if (message.sender === "user") {
+          if (selectedTicket?._id === event.conversation_id) {
+            markConversationRead(event.conversation_id);
+          } else {
+            setAllConversations((prev) =>
+              prev.map((conv) =>
+                conv.id === event.conversation_id ? { ...conv, unread_count: (conv.unread_count ?? 0) + 1 } : conv
+              )
+            );
+          }
+        }
+        break;
+      }
+      case "message.status": {
+        let failedMessage: Message | null = null;
+        queryClient.setQueryData<Message[]>(["messages", event.conversation_id], (prev) =>
+          prev?.map((m) => {
+            if (!isSameMessage(m, event.message_id)) return m;
+            const updated = applyStatusUpdate(m, {
+              status: event.status,
+              error_code: event.error_code,
+              error: event.error_message,
+            });
+            if (updated !== m && updated.status === "failed") failedMessage = updated;
+            return updated;
+          })
+        );
+        // Only worth interrupting for the thread the agent is looking at; elsewhere the bubble shows it
+        if (failedMessage && selectedTicket?._id === event.conversation_id) {
+          toast({
+            variant: "destructive",
+            title: "Message not delivered",
+            description: describeDeliveryFailure(failedMessage).reason,
+          });
+        }
+        break;
+      }
+      case "conversation.created":
+        setAllConversations((prev) =>
+          prev.some((c) => c.id === event.conversation.id) ? prev : [event.conversation, ...prev]
+        );
+        break;
+      case "conversation.status":
+        updateConversationOptimistically(event.conversation_id, { status: event.status });
+        break;
+      case "conversation.assigned":
+        updateConversationOptimistically(event.conversation_id, {
+          assigned_to: event.assigned_to,
+          assigned_to_username: event.assigned_to_username ?? null,
+        });
+        break;
+      case "conversation.ai":
+        updateConversationOptimistically(event.conversation_id, {
+          ai_enabled: event.ai_enabled,
+          ai_paused_by: event.ai_paused_by,
+          ...(event.ai_pause_reason !== undefined && { ai_pause_reason: event.ai_pause_reason }),
+          ...(event.ai_resume_at !== undefined && { ai_resume_at: event.ai_resume_at }),
+        });
+        if (event.event) {
+          queryClient.setQueryData<AiEvent[]>(["ai-events", event.conversation_id], (prev) =>
+            !prev || prev.some((e) => e.id === event.event.id) ? prev : [...prev, event.event]
+          );
+        }
+        break;
+      case "conversation.tags":
+        updateConversationOptimistically(event.conversation_id, {
+          issue_type: event.issue_type,
+          tags: event.tags,
+        });
+        break;
+      case "note.created":
+        queryClient.setQueryData<InternalNote[]>(["notes", event.conversation_id], (prev) =>
+          !prev || prev.some((n) => n.id === event.note.id) ? prev : [...prev, event.note]
+        );
+        break;
+      case "conversation.sla_breached":
+        // Deadlines already put the ticket in the breached state; refetch so server-side views pick it up
+        if (filters.sla_breached) fetchInitial({ silent: true });
+        break;
+    }
+  };
+
+  const realtimeStatus = useRealtime(handleRealtimeEvent);
+  const isLive = realtimeStatus === "open";
+
+  // Catch up on anything missed while the socket was down
+  const hasBeenLiveRef = useRef(false);
+  useEffect(() => {
+    if (!isLive) return;
+    if (hasBeenLiveRef.current) {
+      fetchInitial({ silent: true });
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      flushOutbox(businessId);
+    }
+    hasBeenLiveRef.current = true;
+  }, [isLive]);
+
+  // Fallback: poll the ticket list while disconnected
+  useEffect(() => {
+    if (isLive) return;
+    const interval = setInterval(() => fetchInitial({ silent: true }), QUEUE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLive, filtersKey, businessId]);
+
+  // Fetch messages for selected ticket
   const {
     data: messagesData,
     isLoading: isLoadingMessages,
     isError: isMessagesError,
+    error: messagesError,
   } = useQuery({
     queryKey: ["messages", selectedTicket?._id],
-    queryFn: async () => {
-      if (!selectedTicket) return [];
+    queryFn: () => (selectedTicket ? conversationsApi.getMessages(selectedTicket._id) : []),
+    enabled: !!selectedTicket,
+    // Realtime pushes new messages; only poll while the socket is down
+    refetchInterval: selectedTicket?.status === 'resolved' || isLive ? false : 3000,
+  });
 
-      try {
-        const rawResponse = await apiRequest<any>(
-          `/api/v1/conversations/${selectedTicket._id}`
-        );
+  // Internal notes are stored apart from the WhatsApp thread and merged in by time
+  const { data: notesData } = useQuery({
+    queryKey: ["notes", selectedTicket?._id],
+    queryFn: () => (selectedTicket ? conversationsApi.getNotes(selectedTicket._id) : []),
+    enabled: !!selectedTicket,
+    refetchInterval: selectedTicket?.status === 'resolved' || isLive ? false : 15000,
+  });
 
-        const { messages, source, raw } = extractMessagesFromResponse(rawResponse);
+  // Bot pause/resume/handoff history, shown as banners across the thread
+  const { data: aiEventsData } = useQuery({
+    queryKey: ["ai-events", selectedTicket?._id],
+    queryFn: () => (selectedTicket ? conversationsApi.getAiEvents(selectedTicket._id) : []),
+    enabled: !!selectedTicket,
+    refetchInterval: selectedTicket?.status === 'resolved' || isLive ? false : 15000,
+  });
 
-        // Store for debug panel
-        setLastApiResponse(raw);
-        setExtractionSource(source);
+  const aiEventMessages: Message[] = (aiEventsData || []).map((event) => ({
+    id: event.id,
+    text: describeAiEvent(event),
+    content: describeAiEvent(event),
+    sender: "bot",
+    source: "system",
+    ai_event: event,
+    timestamp: event.created_at,
+  }));
 
-        const shouldLog = import.meta.env.DEV || sessionStorage.getItem("debug_api") === "1";
-        if (shouldLog) {
-          console.log(`[Cockpit] Extracted ${messages.length} messages from ${source}`);
-          console.log("[Cockpit] Raw response:", raw);
-        }
+  const noteMessages: Message[] = (notesData || []).map((note) => ({
+    id: note.id,
+    text: note.text,
+    content: note.text,
+    sender: "agent",
+    source: "note",
+    author_name: note.author_name,
+    timestamp: note.created_at,
+  }));
 
-        return messages;
-      } catch (err) {
-        console.error("[Cockpit] Failed to fetch thread:", err);
-        throw err;
-      }
-    },
-    enabled: !!selectedTicket,
-    refetchInterval: selectedTicket?.status === 'resolved' ? false : 3000,
-  });
+  // Replies still in the outbox for this conversation, shown as sending/failed
+  const queuedMessages: Message[] = outbox
+    .filter((entry) => entry.conversation_id === selectedTicket?._id)
+    .map((entry) => ({
+      id: entry.id,
+      text: entry.text,
+      content: entry.text,
+      sender: "agent",
+      source: "agent",
+      timestamp: entry.created_at,
+      status: entry.status === "failed" ? "failed" : "sending",
+      error: entry.error,
+      is_queued: true,
+      ...(entry.media && {
+        message_type: entry.media.type,
+        media_id: entry.media.id,
+        image_media_id: entry.media.type === "image" ? entry.media.id : undefined,
+        filename: entry.media.filename,
+        mime_type: entry.media.mime_type,
+      }),
+    }));
 
-  // Combine fetched messages with optimistic ones, sorted chronologically
-  const allMessages = [...(messagesData || []), ...optimisticMessages].sort(
-    (a, b) => {
-      const tA = new Date(a.timestamp || a.created_at || 0).getTime();
-      const tB = new Date(b.timestamp || b.created_at || 0).getTime();
-      return tA - tB;
-    }
+  // Combine fetched messages with queued ones, sorted chronologically
+  // Backend timestamps may lack a zone; read them as UTC like everywhere else
+  const timeOf = (m: Message) => {
+    const at = m.timestamp || m.created_at;
+    return at ? new Date(normalizeUTC(at)).getTime() : 0;
+  };
+  const allMessages = [...(messagesData || []), ...noteMessages, ...aiEventMessages, ...queuedMessages].sort(
+    (a, b) => timeOf(a) - timeOf(b)
   );
 
   // Helper to update conversation in list optimistically
@@ -222,21 +503,18 @@ export default function Conversations() {
   // Assign mutation with optimistic update
   const assignMutation = useMutation({
     mutationFn: ({ ticketId, userId }: { ticketId: string; userId: string }) =>
-      apiRequest(`/api/v1/conversations/${ticketId}/assign`, {
-        method: "POST",
-        body: JSON.stringify({ user_id: userId }),
-      }),
+      conversationsApi.assign(ticketId, userId),
     onMutate: async ({ ticketId, userId }) => {
       updateConversationOptimistically(ticketId, {
         assigned_to: userId,
         assigned_to_username: userId.length > 12 ? undefined : userId,
-      } as any);
+      });
     },
     onSuccess: () => {
       toast({ title: "Assigned", description: "Ticket assigned successfully" });
     },
     onError: (error, { ticketId }) => {
-      updateConversationOptimistically(ticketId, { assigned_to: null, assigned_to_username: null } as any);
+      updateConversationOptimistically(ticketId, { assigned_to: null, assigned_to_username: null });
       const message = error instanceof ApiError ? error.message : "Assignment failed";
       toast({ variant: "destructive", title: "Error", description: message });
     },
@@ -244,19 +522,19 @@ export default function Conversations() {
 
   // Resolve mutation with optimistic update
   const resolveMutation = useMutation({
-    mutationFn: (ticketId: string) =>
-      apiRequest(`/api/v1/conversations/${ticketId}/resolve`, {
-        method: "PUT",
-      }),
-    onMutate: async (ticketId) => {
+    mutationFn: ({ ticketId, resolution }: { ticketId: string; resolution: Resolution }) =>
+      conversationsApi.resolve(ticketId, resolution),
+    onMutate: async ({ ticketId, resolution }) => {
       const previousConversations = [...allConversations];
       const previousSelectedTicket = selectedTicket;
 
-      if (filter === "open") {
-        setAllConversations((prev) => prev.filter((c) => c.id !== ticketId));
-      } else {
-        updateConversationOptimistically(ticketId, { status: "resolved" } as any);
-      }
+      // Views that only show open tickets drop it via matchesFilters
+      updateConversationOptimistically(ticketId, {
+        status: "resolved",
+        first_response_due_at: null,
+        resolution_due_at: null,
+        disposition: resolution.disposition,
+      });
 
       const currentIndex = ticketsData?.findIndex((t) => t._id === ticketId) ?? -1;
       const nextTicket = ticketsData?.[currentIndex + 1] || ticketsData?.[0] || null;
@@ -265,14 +543,13 @@ export default function Conversations() {
       } else {
         setSelectedTicket(null);
       }
-      setOptimisticMessages([]);
 
       return { previousConversations, previousSelectedTicket };
     },
     onSuccess: () => {
       toast({ title: "Resolved", description: "Ticket marked as resolved" });
     },
-    onError: (error, ticketId, context) => {
+    onError: (error, _variables, context) => {
       if (context) {
         setAllConversations(context.previousConversations);
         setSelectedTicket(context.previousSelectedTicket);
@@ -282,23 +559,44 @@ export default function Conversations() {
     },
   });
 
-  // AI Toggle mutation with optimistic update
+  // Tag edits apply immediately and roll back if the save fails
+  const tagsMutation = useMutation({
+    mutationFn: ({ ticketId, tagging }: { ticketId: string; tagging: ConversationTagging }) =>
+      conversationsApi.updateTags(ticketId, tagging),
+    onMutate: async ({ ticketId, tagging }) => {
+      const previous = allConversations.find((c) => c.id === ticketId);
+      updateConversationOptimistically(ticketId, tagging);
+      return { previousTagging: { issue_type: previous?.issue_type ?? null, tags: previous?.tags ?? [] } };
+    },
+    onError: (error, { ticketId }, context) => {
+      if (context) updateConversationOptimistically(ticketId, context.previousTagging);
+      const message = error instanceof ApiError ? error.message : "Failed to update tags";
+      toast({ variant: "destructive", title: "Error", description: message });
+    },
+  });
+
+  // AI Toggle mutation with optimistic update; pauses without a stated reason use the defaults
   const aiToggleMutation = useMutation({
-    mutationFn: ({ ticketId, enabled }: { ticketId: string; enabled: boolean }) =>
-      apiRequest(`/api/v1/conversations/${ticketId}/ai`, {
-        method: "POST",
-        body: JSON.stringify({ enabled }),
-      }),
-    onMutate: async ({ ticketId, enabled }) => {
-      const previousAiEnabled = allConversations.find((c) => c.id === ticketId)?.ai_enabled;
-      const previousAiPausedBy = (allConversations.find((c) => c.id === ticketId) as any)?.ai_paused_by;
-      
+    mutationFn: ({ ticketId, enabled, pause = DEFAULT_AI_PAUSE }: { ticketId: string; enabled: boolean; pause?: AiPause }) =>
+      conversationsApi.setAi(ticketId, enabled, enabled ? undefined : pause),
+    onMutate: async ({ ticketId, enabled, pause = DEFAULT_AI_PAUSE }) => {
+      const previous = allConversations.find((c) => c.id === ticketId);
+      const previousAiEnabled = previous?.ai_enabled;
+      const previousAiPausedBy = previous?.ai_paused_by;
+      const previousPauseReason = previous?.ai_pause_reason;
+      const previousResumeAt = previous?.ai_resume_at;
+
       updateConversationOptimistically(ticketId, {
         ai_enabled: enabled,
         ai_paused_by: enabled ? null : (user?.id || "agent"),
-      } as any);
+        ai_pause_reason: enabled ? null : pause.reason,
+        ai_resume_at:
+          enabled || pause.resume_after_minutes === null
+            ? null
+            : new Date(Date.now() + pause.resume_after_minutes * 60 * 1000).toISOString(),
+      });
 
-      return { ticketId, previousAiEnabled, previousAiPausedBy };
+      return { ticketId, previousAiEnabled, previousAiPausedBy, previousPauseReason, previousResumeAt };
     },
     onSuccess: (_, { enabled }) => {
       toast({ 
@@ -311,63 +609,225 @@ export default function Conversations() {
         updateConversationOptimistically(context.ticketId, {
           ai_enabled: context.previousAiEnabled,
           ai_paused_by: context.previousAiPausedBy,
-        } as any);
+          ai_pause_reason: context.previousPauseReason,
+          ai_resume_at: context.previousResumeAt,
+        });
       }
       const message = error instanceof ApiError ? error.message : "AI toggle failed";
       toast({ variant: "destructive", title: "Error", description: message });
     },
   });
 
-  // Send message mutation
+  // Send message mutation: replies go through the outbox so a failed send is never lost
   const sendMutation = useMutation({
-    mutationFn: ({ ticketId, message }: { ticketId: string; message: string }) =>
-      apiRequest<any>(`/api/v1/conversations/${ticketId}/send`, {
-        method: "POST",
-        body: JSON.stringify({ message }),
-      }),
-    onMutate: async ({ message }) => {
-      const newMessage: Message = {
-        id: `optimistic-${Date.now()}`,
-        content: message,
-        text: message,
-        sender: "agent",
-        timestamp: new Date().toISOString(),
-      };
-      setOptimisticMessages((prev) => [...prev, newMessage]);
-    },
-    onSuccess: (response, { ticketId }) => {
-      // Clear optimistic messages since we'll get real data
-      setOptimisticMessages([]);
-      
+    mutationFn: (entry: OutboxEntry) => deliverMessage(entry),
+    onSuccess: (response, entry) => {
       // Invalidate messages query to refetch the real message list
-      queryClient.invalidateQueries({ queryKey: ["messages", ticketId] });
+      queryClient.invalidateQueries({ queryKey: ["messages", entry.conversation_id] });
+
+      // An agent reply meets the first-response SLA
+      updateConversationOptimistically(entry.conversation_id, { first_response_due_at: null });
       
+      // Agent activity restarts the bot's auto-resume timer; without the new deadline
+      // the banner would keep counting down to the old one
+      if (response.aiResumeAt !== undefined) {
+        updateConversationOptimistically(entry.conversation_id, { ai_resume_at: response.aiResumeAt });
+      }
+
       // If backend indicates AI was paused by this action, update locally
-      if (response?.ai_enabled === false || response?.data?.ai_enabled === false) {
-        updateConversationOptimistically(ticketId, {
+      if (response.aiEnabled === false) {
+        updateConversationOptimistically(entry.conversation_id, {
           ai_enabled: false,
           ai_paused_by: user?.id || "agent",
-        } as any);
+        });
       }
     },
-    onError: (error) => {
-      setOptimisticMessages([]);
+    onError: (error, entry) => {
+      const failed = getOutbox().find((e) => e.id === entry.id)?.status === "failed";
+      if (!failed) {
+        // fetch rejects with TypeError when the connection drops; anything else was a server hiccup
+        const isOffline = !navigator.onLine || error instanceof TypeError;
+        toast({
+          title: "Message queued",
+          description: isOffline ? "It will be sent when the connection is back." : "Sending failed; it will be retried shortly.",
+        });
+        return;
+      }
       const message = error instanceof ApiError ? error.message : "Send failed";
       toast({ variant: "destructive", title: "Error", description: message });
     },
   });
 
   const handleSelectTicket = (ticket: Ticket) => {
-    setSelectedTicket(ticket);
-    setOptimisticMessages([]);
-    // Reset debug info on new selection
-    setLastApiResponse(null);
-    setExtractionSource("");
+    openConversation(ticket);
+    setFocusMessageId(null);
   };
 
-  const handleSendMessage = (message: string) => {
+  // Keyboard: j/k walk the queue, / searches; ticket actions need an open conversation
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const moveSelection = (step: 1 | -1) => {
+    if (!ticketsData?.length) return;
+    const index = ticketsData.findIndex((t) => t._id === selectedTicket?._id);
+    const next = index === -1 ? ticketsData[0] : ticketsData[index + step];
+    if (next) handleSelectTicket(next);
+  };
+
+  const queueCommands: Command[] = [
+    { id: "queue.next", label: "Next ticket", group: "Queue", shortcut: "j", run: () => moveSelection(1) },
+    { id: "queue.previous", label: "Previous ticket", group: "Queue", shortcut: "k", run: () => moveSelection(-1) },
+    {
+      id: "queue.search",
+      label: "Search conversations",
+      group: "Queue",
+      shortcut: "/",
+      run: () => searchInputRef.current?.focus(),
+    },
+  ];
+  const isSelectedAiActive = selectedTicket?.ai_enabled === true && selectedTicket?.ai_paused_by === null;
+  const ticketCommands: Command[] = selectedTicket
+    ? [
+        {
+          id: "ticket.assign_me",
+          label: "Assign to me",
+          group: "Conversation",
+          shortcut: "a",
+          keywords: ["take", "claim"],
+          run: () => user && assignMutation.mutate({ ticketId: selectedTicket._id, userId: user.id || user.username }),
+        },
+        {
+          id: "ticket.toggle_ai",
+          label: isSelectedAiActive ? "Pause AI" : "Resume AI",
+          group: "Conversation",
+          keywords: ["bot", "autopilot"],
+          run: () => aiToggleMutation.mutate({ ticketId: selectedTicket._id, enabled: !isSelectedAiActive }),
+        },
+      ]
+    : [];
+  useRegisterCommands([...queueCommands, ...ticketCommands]);
+
+  const handleSendMessage = async (message: string) => {
     if (!selectedTicket) return;
-    sendMutation.mutate({ ticketId: selectedTicket._id, message });
+    const entry = await enqueueMessage(selectedTicket._id, businessId, message);
+    sendMutation.mutate(entry);
+  };
+
+  // Upload now (with progress), then queue the send so it survives a dropped connection like text replies
+  const handleSendAttachment = async (file: File, { caption, voice, onProgress }: SendAttachmentOptions) => {
+    if (!selectedTicket) return;
+    const conversationId = selectedTicket._id;
+    const mediaId = await conversationsApi.uploadMedia(conversationId, file, onProgress);
+    primeMediaUrl(mediaId, file);
+    const entry = await enqueueMessage(conversationId, businessId, caption, {
+      id: mediaId,
+      type: voice ? "audio" : getMediaType(file.type),
+      mime_type: file.type,
+      filename: file.name,
+      voice,
+    });
+    sendMutation.mutate(entry);
+  };
+
+  const handleSendNote = async (text: string, mentions: string[]) => {
+    if (!selectedTicket) return;
+    const conversationId = selectedTicket._id;
+    try {
+      const note = await conversationsApi.addNote(conversationId, text, mentions);
+      queryClient.setQueryData<InternalNote[]>(["notes", conversationId], (prev) =>
+        prev?.some((n) => n.id === note.id) ? prev : [...(prev ?? []), note]
+      );
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : "Failed to save note";
+      toast({ variant: "destructive", title: "Error", description: message });
+      throw error;
+    }
+  };
+
+  const handleSendTemplate = async (templateName: string, params: Record<string, unknown>) => {
+    if (!selectedTicket) return;
+    const conversationId = selectedTicket._id;
+    try {
+      await conversationsApi.sendTemplate(conversationId, templateName, params);
+      queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+      toast({ title: "Template sent" });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : "Failed to send template";
+      toast({ variant: "destructive", title: "Error", description: message });
+      throw error;
+    }
+  };
+
+  const undoBulk = async (snapshots: ConversationSummary[], action: BulkAction) => {
+    snapshots.forEach((conv) => updateConversationOptimistically(conv.id, conv));
+    const failed = await runInBatches(snapshots, (conv) => undoBulkAction(conv, action));
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Undo incomplete",
+        description: `${failed.length} ticket${failed.length === 1 ? "" : "s"} could not be restored`,
+      });
+      fetchInitial({ silent: true });
+      return;
+    }
+    toast({ title: "Undone", description: `${snapshots.length} ticket${snapshots.length === 1 ? "" : "s"} restored` });
+  };
+
+  // Applied optimistically, sent a few at a time with a progress toast, then offered for undo
+  const handleBulkAction = async (tickets: Ticket[], action: BulkAction) => {
+    const ids = new Set(tickets.map((t) => t._id));
+    const snapshots = allConversations.filter((c) => ids.has(c.id));
+    const total = snapshots.length;
+    if (total === 0) return;
+
+    const title = `Updating ${total} ticket${total === 1 ? "" : "s"}…`;
+    const progress = toast({ title, description: `0 of ${total} done`, duration: Infinity });
+    snapshots.forEach((conv) => updateConversationOptimistically(conv.id, bulkActionPatch(conv, action)));
+
+    const failed = await runInBatches(
+      snapshots,
+      (conv) => applyBulkAction(conv, action),
+      (done) => progress.update({ id: progress.id, title, description: `${done} of ${total} done`, duration: Infinity })
+    );
+    failed.forEach((conv) => updateConversationOptimistically(conv.id, conv));
+
+    const succeeded = snapshots.filter((conv) => !failed.includes(conv));
+    progress.update({
+      id: progress.id,
+      variant: failed.length > 0 ? "destructive" : "default",
+      title: describeBulkAction(action, succeeded.length),
+      description: failed.length > 0 ? `${failed.length} failed and were left unchanged` : undefined,
+      duration: BULK_UNDO_WINDOW_MS,
+      action:
+        succeeded.length > 0 ? (
+          <ToastAction altText="Undo" onClick={() => undoBulk(succeeded, action)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
+    });
+  };
+
+  // Messages WhatsApp rejected after accepting them; the outbox only covers sends that never got through
+  const resendMutation = useMutation({
+    mutationFn: ({ conversationId, messageId }: { conversationId: string; messageId: string }) =>
+      conversationsApi.resendMessage(conversationId, messageId),
+    onMutate: ({ conversationId, messageId }) => {
+      queryClient.setQueryData<Message[]>(["messages", conversationId], (prev) =>
+        prev?.map((m) =>
+          isSameMessage(m, messageId) ? { ...m, status: "sending", error: undefined, error_code: undefined } : m
+        )
+      );
+    },
+    onError: (error, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+      const message = error instanceof ApiError ? error.message : "Resend failed";
+      toast({ variant: "destructive", title: "Error", description: message });
+    },
+  });
+
+  const handleRetryMessage = (messageId: string) => {
+    const entry = outbox.find((e) => e.id === messageId);
+    if (entry) sendMutation.mutate(entry);
+    else if (selectedTicket) resendMutation.mutate({ conversationId: selectedTicket._id, messageId });
   };
 
   const handleTicketUpdate = async () => {
@@ -386,6 +846,9 @@ export default function Conversations() {
     }
   };
 
+  // Surface contract mismatches in the debug overlay
+  const schemaError = messagesError instanceof SchemaError ? messagesError : null;
+
   // Mobile: single-pane layout
   if (isMobile) {
     return (
@@ -401,13 +864,22 @@ export default function Conversations() {
               isResolving={resolveMutation.isPending}
               isSending={sendMutation.isPending}
               isAgentTyping={sendMutation.isPending}
-              hasAgentSent={optimisticMessages.length > 0}
+              hasAgentSent={queuedMessages.length > 0}
               isTogglingAi={aiToggleMutation.isPending}
               onAssign={(userId) => selectedTicket && assignMutation.mutate({ ticketId: selectedTicket._id, userId })}
-              onResolve={() => selectedTicket && resolveMutation.mutate(selectedTicket._id)}
+              onResolve={(resolution) => selectedTicket && resolveMutation.mutate({ ticketId: selectedTicket._id, resolution })}
+              onUpdateTags={(tagging) => selectedTicket && tagsMutation.mutate({ ticketId: selectedTicket._id, tagging })}
               onSendMessage={handleSendMessage}
+              onSendAttachment={handleSendAttachment}
+              onSendNote={handleSendNote}
+              onSendTemplate={handleSendTemplate}
+              onRetryMessage={handleRetryMessage}
+              onDiscardMessage={discardMessage}
+              focusMessageId={focusMessageId}
+              onFocusHandled={() => setFocusMessageId(null)}
+              lastReadAt={readMarker}
               onTicketUpdate={handleTicketUpdate}
-              onToggleAi={(enabled) => selectedTicket && aiToggleMutation.mutate({ ticketId: selectedTicket._id, enabled })}
+              onToggleAi={(enabled, pause) => selectedTicket && aiToggleMutation.mutate({ ticketId: selectedTicket._id, enabled, pause })}
               onBack={() => setSelectedTicket(null)}
             />
 
@@ -425,17 +897,23 @@ export default function Conversations() {
                 <div className="pointer-events-auto bg-card border border-border rounded-lg shadow-xl p-4 max-w-md max-h-96 overflow-auto text-sm">
                   <div className="flex justify-between items-center mb-2">
                     <span className="font-semibold text-foreground">API Response Inspector</span>
-                    <span className="text-xs text-muted-foreground">Src: {extractionSource || "n/a"}</span>
+                    <span className="text-xs text-muted-foreground">Schema: {schemaError ? "drift" : "ok"}</span>
                   </div>
                   <div className="mb-2 text-foreground">
                     Messages Found: <span className="font-bold">{allMessages.length}</span>
                   </div>
-                  <div className="text-xs">
-                    <span className="text-muted-foreground">Raw API Payload:</span>
-                    <pre className="mt-1 p-2 bg-muted rounded text-muted-foreground overflow-auto max-h-48">
-                      {lastApiResponse ? JSON.stringify(lastApiResponse, null, 2).slice(0, 2000) : "Waiting for response..."}
-                    </pre>
-                  </div>
+                  {schemaError && (
+                    <div className="text-xs">
+                      <span className="text-muted-foreground">Schema Issues:</span>
+                      <pre className="mt-1 p-2 bg-muted rounded text-destructive overflow-auto max-h-24">
+                        {schemaError.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("\n")}
+                      </pre>
+                      <span className="text-muted-foreground">Raw API Payload:</span>
+                      <pre className="mt-1 p-2 bg-muted rounded text-muted-foreground overflow-auto max-h-48">
+                        {JSON.stringify(schemaError.payload, null, 2).slice(0, 2000)}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -448,13 +926,27 @@ export default function Conversations() {
               isError={isError}
               isFetching={isFetching}
               selectedTicketId={selectedTicket?._id ?? null}
-              filter={filter}
-              onFilterChange={setFilter}
+              views={views}
+              viewId={viewId}
+              onViewChange={handleViewChange}
+              filters={filters}
+              onFiltersChange={handleFiltersChange}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
               onSelectTicket={handleSelectTicket}
               onRefresh={handleRefresh}
               hasMore={nextCursor !== null}
               isLoadingMore={isLoadingMore}
               onLoadMore={handleLoadMore}
+              isLive={isLive}
+              searchInputRef={searchInputRef}
+              searchQuery={searchQuery}
+              onSearchChange={setSearchQuery}
+              searchResults={isSearchActive ? searchResults : undefined}
+              isSearching={isSearching}
+              isSearchError={isSearchError}
+              onSelectSearchResult={handleSelectSearchResult}
+              onBulkAction={handleBulkAction}
             />
           </div>
         )}
@@ -473,13 +965,27 @@ export default function Conversations() {
           isError={isError}
           isFetching={isFetching}
           selectedTicketId={selectedTicket?._id ?? null}
-          filter={filter}
-          onFilterChange={setFilter}
+          views={views}
+          viewId={viewId}
+          onViewChange={handleViewChange}
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          onSaveView={handleSaveView}
+          onDeleteView={handleDeleteView}
           onSelectTicket={handleSelectTicket}
           onRefresh={handleRefresh}
           hasMore={nextCursor !== null}
           isLoadingMore={isLoadingMore}
           onLoadMore={handleLoadMore}
+          isLive={isLive}
+          searchInputRef={searchInputRef}
+          searchQuery={searchQuery}
+          onSearchChange={setSearchQuery}
+          searchResults={isSearchActive ? searchResults : undefined}
+          isSearching={isSearching}
+          isSearchError={isSearchError}
+          onSelectSearchResult={handleSelectSearchResult}
+          onBulkAction={handleBulkAction}
         />
       </div>
 
@@ -494,13 +1000,22 @@ export default function Conversations() {
           isResolving={resolveMutation.isPending}
           isSending={sendMutation.isPending}
           isAgentTyping={sendMutation.isPending}
-          hasAgentSent={optimisticMessages.length > 0}
+          hasAgentSent={queuedMessages.length > 0}
           isTogglingAi={aiToggleMutation.isPending}
           onAssign={(userId) => selectedTicket && assignMutation.mutate({ ticketId: selectedTicket._id, userId })}
-          onResolve={() => selectedTicket && resolveMutation.mutate(selectedTicket._id)}
+          onResolve={(resolution) => selectedTicket && resolveMutation.mutate({ ticketId: selectedTicket._id, resolution })}
+          onUpdateTags={(tagging) => selectedTicket && tagsMutation.mutate({ ticketId: selectedTicket._id, tagging })}
           onSendMessage={handleSendMessage}
+          onSendAttachment={handleSendAttachment}
+          onSendNote={handleSendNote}
+          onSendTemplate={handleSendTemplate}
+          onRetryMessage={handleRetryMessage}
+          onDiscardMessage={discardMessage}
+          focusMessageId={focusMessageId}
+          onFocusHandled={() => setFocusMessageId(null)}
+          lastReadAt={readMarker}
           onTicketUpdate={handleTicketUpdate}
-          onToggleAi={(enabled) => selectedTicket && aiToggleMutation.mutate({ ticketId: selectedTicket._id, enabled })}
+          onToggleAi={(enabled, pause) => selectedTicket && aiToggleMutation.mutate({ ticketId: selectedTicket._id, enabled, pause })}
         />
 
         {/* Debug Overlay */}
@@ -518,17 +1033,23 @@ export default function Conversations() {
               <div className="pointer-events-auto bg-card border border-border rounded-lg shadow-xl p-4 max-w-md max-h-96 overflow-auto text-sm">
                 <div className="flex justify-between items-center mb-2">
                   <span className="font-semibold text-foreground">API Response Inspector</span>
-                  <span className="text-xs text-muted-foreground">Src: {extractionSource || "n/a"}</span>
+                  <span className="text-xs text-muted-foreground">Schema: {schemaError ? "drift" : "ok"}</span>
                 </div>
                 <div className="mb-2 text-foreground">
                   Messages Found: <span className="font-bold">{allMessages.length}</span>
                 </div>
-                <div className="text-xs">
-                  <span className="text-muted-foreground">Raw API Payload:</span>
-                  <pre className="mt-1 p-2 bg-muted rounded text-muted-foreground overflow-auto max-h-48">
-                    {lastApiResponse ? JSON.stringify(lastApiResponse, null, 2).slice(0, 2000) : "Waiting for response..."}
-                  </pre>
-                </div>
+                {schemaError && (
+                  <div className="text-xs">
+                    <span className="text-muted-foreground">Schema Issues:</span>
+                    <pre className="mt-1 p-2 bg-muted rounded text-destructive overflow-auto max-h-24">
+                      {schemaError.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("\n")}
+                    </pre>
+                    <span className="text-muted-foreground">Raw API Payload:</span>
+                    <pre className="mt-1 p-2 bg-muted rounded text-muted-foreground overflow-auto max-h-48">
+                      {JSON.stringify(schemaError.payload, null, 2).slice(0, 2000)}
+                    </pre>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1,27 +1,45 @@
+import { useState } from "react";
 import { useBusiness } from "@/contexts/BusinessContext";
-import { apiRequest, AbandonedCartsStats, APIResponse } from "@/lib/api";
-import { useQuery } from "@tanstack/react-query";
+import { adminApi, conversationsApi } from "@/lib/apiClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, UserCheck, Package, ShoppingCart, RefreshCw, IndianRupee, AlertCircle } from "lucide-react";
-
-interface PackerPerformance {
-  name: string;
-  count: number;
-  last_active: string;
-}
-
-interface ConversationStats {
-  open: number;
-  resolved: number;
-  triaged?: number;
-  total?: number;
-  abandoned_carts?: AbandonedCartsStats;
-}
+import { toast } from "sonner";
+import { MessageSquare, UserCheck, Package, ShoppingCart, RefreshCw, IndianRupee, AlertCircle, Timer, Settings2, Shuffle, Loader2, Sparkles } from "lucide-react";
+import { SlaTargetsDialog } from "@/components/cockpit/SlaTargetsDialog";
+import { AssignmentRulesDialog } from "@/components/cockpit/AssignmentRulesDialog";
+import { useSlaConfig } from "@/hooks/use-sla";
+import { useAgents } from "@/hooks/use-agents";
+import { useAssignmentConfig } from "@/hooks/use-assignment";
+import { ASSIGNMENT_STRATEGIES, getIneligibleReason } from "@/lib/assignment";
+import { getAcceptanceRate } from "@/lib/suggestions";
 
 export default function DashboardHome() {
   const { businessId } = useBusiness();
+  const slaConfig = useSlaConfig();
+  const [isSlaDialogOpen, setIsSlaDialogOpen] = useState(false);
+  const assignmentConfig = useAssignmentConfig();
+  const [isAssignmentDialogOpen, setIsAssignmentDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: agents = [], isLoading: agentsLoading } = useAgents();
+
+  const onlineCount = agents.filter((a) => a.status === "online").length;
+  const awayCount = agents.filter((a) => a.status === "away").length;
+  const availableCount = agents.filter((a) => !getIneligibleReason(a, assignmentConfig)).length;
+
+  // For tickets that escalated while nobody was available
+  const autoAssignMutation = useMutation({
+    mutationFn: conversationsApi.autoAssign,
+    onSuccess: (assigned) => {
+      queryClient.invalidateQueries({ queryKey: ["conversation-stats", businessId] });
+      queryClient.invalidateQueries({ queryKey: ["agents"] });
+      toast.success(assigned ? `Assigned ${assigned} waiting ticket${assigned === 1 ? "" : "s"}` : "No tickets could be assigned");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to assign tickets");
+    },
+  });
 
   // Fetch conversation stats - backend extracts tenant from auth token
   const { 
@@ -35,12 +53,9 @@ export default function DashboardHome() {
     enabled: !!businessId,
     queryFn: async () => {
       console.log("[Dashboard] Fetching conversation stats for business:", businessId);
-      const response = await apiRequest<APIResponse<{ stats: ConversationStats }>>(
-        `/api/v1/conversations/stats`
-      );
-      console.log("[Dashboard] Stats API response:", response);
-      console.log("[Dashboard] Stats data:", response.data?.stats);
-      return response.data?.stats;
+      const stats = await conversationsApi.getStats();
+      console.log("[Dashboard] Stats data:", stats);
+      return stats;
     },
   });
 
@@ -55,14 +70,14 @@ export default function DashboardHome() {
     enabled: !!businessId,
     queryFn: async () => {
       console.log("[Dashboard] Fetching packer performance for business:", businessId);
-      const response = await apiRequest<APIResponse<{ metrics: PackerPerformance[] }>>(
-        `/api/v1/admin/packer-performance`
-      );
-      console.log("[Dashboard] Packer API response:", response);
-      return response.data?.metrics || [];
+      const metrics = await adminApi.getPackerPerformance();
+      console.log("[Dashboard] Packer metrics:", metrics);
+      return metrics;
     },
   });
 
+  const suggestionRate = getAcceptanceRate(conversationStats?.suggestions);
+
   // Log any errors
   if (statsError) {
     console.error("[Dashboard] Stats error:", statsErrorDetails);
@@ -226,6 +241,173 @@ export default function DashboardHome() {
           </CardContent>
         </Card>
 
+        {/* AI Suggestions Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              AI Suggestions Used
+            </CardTitle>
+            <Sparkles className="h-4 w-4 text-violet-600" />
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? (
+              <Skeleton className="h-9 w-16" />
+            ) : statsError ? (
+              <div className="flex items-center gap-1 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4" />
+                Failed to load
+              </div>
+            ) : (
+              <div className="text-3xl font-bold">
+                {suggestionRate != null ? `${Math.round(suggestionRate)}%` : "—"}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              {conversationStats?.suggestions?.shown
+                ? `${conversationStats.suggestions.accepted} as is, ${conversationStats.suggestions.edited} edited of ${conversationStats.suggestions.shown} · last 7 days`
+                : "No suggestions shown in the last 7 days"}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* SLA Card */}
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Response SLAs
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Edit SLA targets"
+                onClick={() => setIsSlaDialogOpen(true)}
+              >
+                <Settings2 className="h-3.5 w-3.5" />
+              </Button>
+              <Timer className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            ) : statsError ? (
+              <div className="flex items-center gap-1 text-destructive text-sm">
+                <AlertCircle className="h-4 w-4" />
+                Failed to load
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-xs text-muted-foreground">Breached now</div>
+                  <div className="flex items-baseline gap-3 mt-1">
+                    <span className={`text-3xl font-bold ${conversationStats?.sla?.first_response_breached ? "text-destructive" : ""}`}>
+                      {conversationStats?.sla?.first_response_breached ?? 0}
+                    </span>
+                    <span className="text-xs text-muted-foreground">first response</span>
+                  </div>
+                  <div className="flex items-baseline gap-3">
+                    <span className={`text-xl font-semibold ${conversationStats?.sla?.resolution_breached ? "text-destructive" : ""}`}>
+                      {conversationStats?.sla?.resolution_breached ?? 0}
+                    </span>
+                    <span className="text-xs text-muted-foreground">resolution</span>
+                  </div>
+                </div>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Avg first response</span>
+                    <span className="font-medium">
+                      {conversationStats?.sla?.avg_first_response_minutes != null
+                        ? `${Math.round(conversationStats.sla.avg_first_response_minutes)} min`
+                        : "—"}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Within target</span>
+                    <span className="font-medium">
+                      {conversationStats?.sla?.first_response_met_pct != null
+                        ? `${Math.round(conversationStats.sla.first_response_met_pct)}%`
+                        : "—"}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground pt-1">
+                    Targets: {slaConfig.first_response_minutes} min reply, {slaConfig.resolution_minutes} min resolve · last 7 days
+                  </p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Auto-assignment Card */}
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Auto-assignment
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Edit assignment rules"
+                onClick={() => setIsAssignmentDialogOpen(true)}
+              >
+                <Settings2 className="h-3.5 w-3.5" />
+              </Button>
+              <Shuffle className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {agentsLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-xs text-muted-foreground">Can take tickets</div>
+                  <div className="flex items-baseline gap-3 mt-1">
+                    <span className={`text-3xl font-bold ${assignmentConfig.strategy !== "manual" && !availableCount ? "text-destructive" : ""}`}>
+                      {availableCount}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {onlineCount} online · {awayCount} away
+                    </span>
+                  </div>
+                </div>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Strategy</span>
+                    <span className="font-medium">{ASSIGNMENT_STRATEGIES[assignmentConfig.strategy].label}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Max per agent</span>
+                    <span className="font-medium">{assignmentConfig.max_concurrent}</span>
+                  </div>
+                  {assignmentConfig.strategy !== "manual" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full h-7 mt-1 text-xs"
+                      onClick={() => autoAssignMutation.mutate()}
+                      disabled={autoAssignMutation.isPending || !availableCount}
+                    >
+                      {autoAssignMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                      Assign waiting tickets now
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Packer Performance Card */}
         <Card className="md:col-span-2">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -265,6 +447,9 @@ export default function DashboardHome() {
           </CardContent>
         </Card>
       </div>
+
+      <SlaTargetsDialog open={isSlaDialogOpen} onOpenChange={setIsSlaDialogOpen} />
+      <AssignmentRulesDialog open={isAssignmentDialogOpen} onOpenChange={setIsAssignmentDialogOpen} />
     </div>
   );
 }
@@ -13,7 +13,7 @@ import { PackingKanbanBoard } from "@/components/packing/PackingKanbanBoard";
 import { PackingHoldDialog } from "@/components/packing/PackingHoldDialog";
 import { PackingFulfillDialog } from "@/components/packing/PackingFulfillDialog";
 import { packingApi, PackingOrder, PackingConfig, PackingMetrics, PackerPerformance } from "@/lib/packingApi";
-import { apiRequest } from "@/lib/api";
+import { adminApi } from "@/lib/apiClient";
 
 const BUSINESS_OPTIONS = [
   { id: "feelori", label: "Feelori" },
@@ -195,10 +195,7 @@ export default function PackingPage() {
     const name = newPackerName.trim();
     if (!name) return;
     try {
-      await apiRequest("/api/v1/admin/packers", {
-        method: "POST",
-        body: JSON.stringify({ name }),
-      });
+      await adminApi.addPacker(name);
       toast({ title: "Packer added", description: `${name} has been added to the team.` });
       setNewPackerName("");
       fetchConfig();
@@ -214,9 +211,7 @@ export default function PackingPage() {
   // Remove packer
   const handleRemovePacker = async (name: string) => {
     try {
-      await apiRequest(`/api/v1/admin/packers/${encodeURIComponent(name)}`, {
-        method: "DELETE",
-      });
+      await adminApi.removePacker(name);
       toast({ title: "Packer removed", description: `${name} has been removed from the team.` });
       fetchConfig();
     } catch (error) {
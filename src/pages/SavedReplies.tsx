@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { savedRepliesApi, SavedReply, SavedReplyInput } from "@/lib/apiClient";
+import { ALLOWED_PLACEHOLDERS, placeholderWarnings } from "@/lib/placeholders";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2, MessageSquareText, AlertTriangle, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const EMPTY_REPLY: SavedReplyInput = { shortcut: "", title: "", body: "" };
+
+// Shortcuts are typed after "/" in the message box: keep them to one lowercase word
+const normalizeShortcut = (value: string) => value.toLowerCase().replace(/[^a-z0-9_-]/g, "");
+
+export default function SavedReplies() {
+  const { businessId } = useBusiness();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SavedReplyInput | null>(null);
+
+  const { data: replies = [], isLoading } = useQuery({
+    queryKey: ["saved-replies", businessId],
+    queryFn: () => savedRepliesApi.list(businessId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (reply: SavedReplyInput) =>
+      editingId
+        ? savedRepliesApi.update(businessId, editingId, reply)
+        : savedRepliesApi.create(businessId, reply),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-replies", businessId] });
+      toast.success(editingId ? "Reply updated" : "Reply created");
+      closeEditor();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save reply");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => savedRepliesApi.remove(businessId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-replies", businessId] });
+      toast.success("Reply deleted");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete reply");
+    },
+  });
+
+  const openEditor = (reply?: SavedReply) => {
+    setEditingId(reply?.id ?? null);
+    setDraft(reply ? { shortcut: reply.shortcut, title: reply.title, body: reply.body } : EMPTY_REPLY);
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.shortcut || !draft.title.trim() || !draft.body.trim()) {
+      toast.error("Shortcut, title and message are required");
+      return;
+    }
+    const duplicate = replies.find((r) => r.shortcut === draft.shortcut && r.id !== editingId);
+    if (duplicate) {
+      toast.error(`/${draft.shortcut} is already used by "${duplicate.title}"`);
+      return;
+    }
+    saveMutation.mutate({ ...draft, title: draft.title.trim(), body: draft.body.trim() });
+  };
+
+  const handleDelete = (reply: SavedReply) => {
+    if (!window.confirm(`Delete the saved reply "${reply.title}"?`)) return;
+    deleteMutation.mutate(reply.id);
+  };
+
+  const insertPlaceholder = (name: string) => {
+    setDraft((prev) => prev && { ...prev, body: `${prev.body}{{${name}}}` });
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredReplies = replies.filter(
+    (r) =>
+      !query ||
+      r.shortcut.includes(query) ||
+      r.title.toLowerCase().includes(query) ||
+      r.body.toLowerCase().includes(query)
+  );
+
+  const warnings = draft ? placeholderWarnings(draft.body) : [];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 px-4">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Saved Replies</h1>
+          <p className="text-muted-foreground">
+            Team-wide answers agents can insert by typing / in the chat box
+          </p>
+        </div>
+        <Button onClick={() => openEditor()}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Reply
+        </Button>
+      </div>
+
+      <div className="relative mb-4 max-w-sm">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search replies..."
+          className="pl-9"
+        />
+      </div>
+
+      {filteredReplies.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <MessageSquareText className="h-10 w-10 mx-auto mb-3 opacity-30" />
+            <p className="text-sm">
+              {replies.length === 0 ? "No saved replies yet" : "No replies match your search"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {filteredReplies.map((reply) => (
+            <Card key={reply.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <CardTitle className="text-base truncate">{reply.title}</CardTitle>
+                    <CardDescription>
+                      <Badge variant="secondary" className="font-mono">
+                        /{reply.shortcut}
+                      </Badge>
+                    </CardDescription>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => openEditor(reply)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(reply)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{reply.body}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && closeEditor()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Saved Reply" : "New Saved Reply"}</DialogTitle>
+            <DialogDescription>
+              Variables are filled in with the customer's details when the reply is inserted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="reply-shortcut">Shortcut</Label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">/</span>
+                    <Input
+                      id="reply-shortcut"
+                      value={draft.shortcut}
+                      onChange={(e) => setDraft({ ...draft, shortcut: normalizeShortcut(e.target.value) })}
+                      placeholder="refund"
+                      className="pl-6 font-mono"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reply-title">Title</Label>
+                  <Input
+                    id="reply-title"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder="Refund policy"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="reply-body">Message</Label>
+                <Textarea
+                  id="reply-body"
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  placeholder="Hi! Your order {{order_number}} is on its way: {{tracking_link}}"
+                  rows={6}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Insert variable</Label>
+                <div className="flex flex-wrap gap-1">
+                  {ALLOWED_PLACEHOLDERS.map((name) => (
+                    <Badge
+                      key={name}
+                      variant="outline"
+                      className="cursor-pointer font-mono text-[10px] hover:bg-accent"
+                      onClick={() => insertPlaceholder(name)}
+                    >
+                      {`{{${name}}}`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {warnings.map((warning, idx) => (
+                <Alert key={idx} variant="default" className="border-yellow-500/50 bg-yellow-500/10">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-xs text-yellow-700 dark:text-yellow-400">
+                    {warning}
+                  </AlertDescription>
+                </Alert>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditor}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
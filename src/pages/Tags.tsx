@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useBusiness } from "@/contexts/BusinessContext";
+import { useTags } from "@/hooks/use-tags";
+import { ConversationTag, ConversationTagInput, TagKind, tagsApi } from "@/lib/apiClient";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2, Check, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const SECTIONS: { kind: TagKind; title: string; description: string; placeholder: string }[] = [
+  {
+    kind: "issue_type",
+    title: "Issue Types",
+    description: "Why the customer got in touch. One per ticket, set while handling it.",
+    placeholder: "e.g. Order status",
+  },
+  {
+    kind: "tag",
+    title: "Tags",
+    description: "Free labels agents can add to any ticket.",
+    placeholder: "e.g. VIP",
+  },
+  {
+    kind: "disposition",
+    title: "Dispositions",
+    description: "How a ticket ended. Agents must pick one when resolving.",
+    placeholder: "e.g. Refund issued",
+  },
+];
+
+interface TagSectionProps {
+  title: string;
+  description: string;
+  placeholder: string;
+  tags: ConversationTag[];
+  isSaving: boolean;
+  onCreate: (name: string) => void;
+  onRename: (tag: ConversationTag, name: string) => void;
+  onDelete: (tag: ConversationTag) => void;
+}
+
+function TagSection({ title, description, placeholder, tags, isSaving, onCreate, onRename, onDelete }: TagSectionProps) {
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName("");
+  };
+
+  const handleRename = (tag: ConversationTag) => {
+    if (!editing?.name.trim()) return;
+    if (editing.name.trim() !== tag.name) onRename(tag, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">None yet</p>
+        ) : (
+          <div className="divide-y divide-border rounded-md border border-border">
+            {tags.map((tag) =>
+              editing?.id === tag.id ? (
+                <div key={tag.id} className="flex items-center gap-1 p-1.5">
+                  <Input
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(tag);
+                      if (e.key === "Escape") setEditing(null);
+                    }}
+                    className="h-8 text-sm"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => handleRename(tag)}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setEditing(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div key={tag.id} className="flex items-center gap-1 pl-3 pr-1.5 py-1.5">
+                  <span className="flex-1 text-sm truncate">{tag.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setEditing({ id: tag.id, name: tag.name })}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                    onClick={() => onDelete(tag)}
+                    disabled={isSaving}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder={placeholder}
+            className="h-9 text-sm"
+          />
+          <Button size="sm" className="h-9 shrink-0" onClick={handleCreate} disabled={!newName.trim() || isSaving}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Tags() {
+  const { businessId } = useBusiness();
+  const queryClient = useQueryClient();
+  const { data: allTags = [], isLoading } = useTags();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["tags", businessId] });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, tag }: { id?: string; tag: ConversationTagInput }) =>
+      id ? tagsApi.update(businessId, id, tag) : tagsApi.create(businessId, tag),
+    onSuccess: (_, { id }) => {
+      invalidate();
+      toast.success(id ? "Renamed" : "Added");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => tagsApi.remove(businessId, id),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Deleted");
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    },
+  });
+
+  // Names are what tickets and reports carry, so keep them unique per kind
+  const isDuplicate = (kind: TagKind, name: string, exceptId?: string) =>
+    allTags.some((t) => t.kind === kind && t.id !== exceptId && t.name.toLowerCase() === name.toLowerCase());
+
+  const handleCreate = (kind: TagKind, name: string) => {
+    if (isDuplicate(kind, name)) {
+      toast.error(`"${name}" already exists`);
+      return;
+    }
+    saveMutation.mutate({ tag: { kind, name } });
+  };
+
+  const handleRename = (tag: ConversationTag, name: string) => {
+    if (isDuplicate(tag.kind, name, tag.id)) {
+      toast.error(`"${name}" already exists`);
+      return;
+    }
+    saveMutation.mutate({ id: tag.id, tag: { kind: tag.kind, name } });
+  };
+
+  const handleDelete = (tag: ConversationTag) => {
+    if (!window.confirm(`Delete "${tag.name}"? Tickets keep it, but agents can no longer pick it.`)) return;
+    deleteMutation.mutate(tag.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 px-4">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Tags & Dispositions</h1>
+        <p className="text-muted-foreground">
+          How tickets are categorised for reporting on why customers contact you
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {SECTIONS.map((section) => (
+          <TagSection
+            key={section.kind}
+            title={section.title}
+            description={section.description}
+            placeholder={section.placeholder}
+            tags={allTags.filter((t) => t.kind === section.kind)}
+            isSaving={saveMutation.isPending || deleteMutation.isPending}
+            onCreate={(name) => handleCreate(section.kind, name)}
+            onRename={handleRename}
+            onDelete={handleDelete}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
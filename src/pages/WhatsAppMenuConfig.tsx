@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useBusiness } from "@/contexts/BusinessContext";
-import { apiRequest } from "@/lib/api";
+import { businessConfigApi, BusinessConfig, GreetingMenuItem, ShopCategory, ShopifyAction } from "@/lib/apiClient";
 import { toast } from "sonner";
 import { 
   ArrowUp, 
@@ -22,28 +22,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 
-interface GreetingMenuItem {
-  id: string;
-  title: string;
-}
-
-interface ShopifyAction {
-  type: "collection" | "tag";
-  value: string;
-}
-
-interface ShopCategory {
-  id: string;
-  title: string;
-  shopify_action: ShopifyAction;
-}
-
-interface BusinessConfig {
-  whatsapp_greeting_menu: GreetingMenuItem[];
-  whatsapp_shop_categories: ShopCategory[];
-  [key: string]: unknown;
-}
-
 const generateId = (title: string, prefix: string): string => {
   return `${prefix}_${title.toLowerCase().replace(/[^a-z0-9]/g, '_').slice(0, 20)}`;
 };
@@ -73,10 +51,7 @@ export default function WhatsAppMenuConfig() {
     if (!businessId) return;
     setLoading(true);
     try {
-      const response = await apiRequest<{ data: BusinessConfig }>(
-        `/api/v1/admin/business-config/${businessId}`
-      );
-      const data = response.data;
+      const data = await businessConfigApi.get(businessId);
       setConfig(data);
       // Pre-fill with defaults if greeting menu is empty
       const greetingData = data?.whatsapp_greeting_menu;
@@ -131,11 +106,7 @@ export default function WhatsAppMenuConfig() {
         whatsapp_shop_categories: shopCategories,
       };
       
-      await apiRequest(`/api/v1/admin/business-config/${businessId}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updatedConfig),
-      });
+      await businessConfigApi.save(businessId, updatedConfig);
       
       setConfig(updatedConfig);
       toast.success("Configuration saved successfully");